@@ -1,5 +1,20 @@
-import { describe, expect, it } from "bun:test";
-import { MemoryFileSystem, ZeroPerl } from "./index";
+import { afterEach, describe, expect, it } from "bun:test";
+import * as nodeFs from "node:fs";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	FileSystemError,
+	HostFileSystem,
+	MemoryFileSystem,
+	NodeDirectoryAdapter,
+	OverlayFileSystem,
+	type PersistedNode,
+	type PersistenceAdapter,
+	SnapshotAdapter,
+	ZeroPerl,
+} from "./index";
+import { useMemoryFS, WASI } from "./wasi";
 
 function expectSuccess(result: { success: boolean; error?: string; exitCode: number }) {
 	if (!result.success) {
@@ -7,6 +22,48 @@ function expectSuccess(result: { success: boolean; error?: string; exitCode: num
 	}
 }
 
+type WasiCall = (...args: (number | bigint)[]) => number | Promise<number>;
+
+/**
+ * Sets up `useMemoryFS` over a bare memory so syscalls the zeroperl binary
+ * does not import can still be exercised directly.
+ */
+async function createWasiHarness(fs: MemoryFileSystem) {
+	const wasi = new WASI({ features: [useMemoryFS({ withFileSystem: fs })] });
+	const memory = new WebAssembly.Memory({ initial: 1 });
+	await wasi.initialize({ exports: { memory, _initialize() {} } } as unknown as WebAssembly.Instance);
+
+	const call = (name: string, ...args: (number | bigint)[]) =>
+		(wasi.wasiImport[name] as WasiCall)(...args);
+	const bytes = () => new Uint8Array(memory.buffer);
+	const u32 = (ptr: number) => new DataView(memory.buffer).getUint32(ptr, true);
+	const u64 = (ptr: number) => new DataView(memory.buffer).getBigUint64(ptr, true);
+
+	// Fixed scratch layout: [0] iovec, [16] result, [64] data buffer, [1024] path.
+	const iov = (data: Uint8Array | number) => {
+		const length = typeof data === "number" ? data : data.byteLength;
+		if (typeof data !== "number") bytes().set(data, 64);
+		new DataView(memory.buffer).setUint32(0, 64, true);
+		new DataView(memory.buffer).setUint32(4, length, true);
+		return 0;
+	};
+
+	return {
+		call,
+		bytes,
+		u32,
+		u64,
+		iov,
+		async open(path: string, oflags = 0, rights = (1n << 29n) - 1n): Promise<number> {
+			const encoded = new TextEncoder().encode(path);
+			bytes().set(encoded, 1024);
+			const errno = await call("path_open", 3, 1, 1024, encoded.byteLength, oflags, rights, rights, 0, 16);
+			expect(errno).toBe(0);
+			return u32(16);
+		},
+	};
+}
+
 function expectFailure(result: { success: boolean; error?: string; exitCode: number }) {
 	if (result.success) {
 		throw new Error(`Expected Perl to fail but it succeeded`);
@@ -1316,1104 +1373,3318 @@ describe("File System", () => {
 	});
 });
 
-describe("Output Handling", () => {
-	it("should capture stdout", async () => {
+describe("Directories", () => {
+	it("should list directory entries with opendir and readdir", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/data/a.txt", "a");
+		fs.addFile("/data/b.txt", "b");
+		fs.addFile("/data/sub/c.txt", "c");
+
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval('print "hello"');
+		const result = await perl.eval(`
+			opendir(my $dh, '/data') or die "opendir: $!";
+			my @entries = sort(readdir($dh));
+			closedir($dh);
+			print join(",", @entries), "\\n";
+			print join(",", map { -d "/data/$_" ? "d" : "f" } grep { !/^\\./ } @entries);
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("hello");
+		expect(output).toBe(".,..,a.txt,b.txt,sub\nf,f,d");
 
 		perl.dispose();
 	});
 
-	it("should capture stderr separately", async () => {
-		let stdout = "";
-		let stderr = "";
+	it("should expand glob patterns", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/work/one.txt", "1");
+		fs.addFile("/work/two.txt", "2");
+		fs.addFile("/work/three.log", "3");
 
+		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
-				stdout += typeof data === "string" ? data : new TextDecoder().decode(data);
-			},
-			stderr: (data) => {
-				stderr += typeof data === "string" ? data : new TextDecoder().decode(data);
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval('print "to stdout"; warn "to stderr"');
+		const result = await perl.eval(`
+			chdir('/work') or die "chdir: $!";
+			print join(",", sort glob('*.txt'));
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(stdout).toBe("to stdout");
-		expect(stderr).toContain("to stderr");
+		expect(output).toBe("one.txt,two.txt");
 
 		perl.dispose();
 	});
 
-	it("should handle multiple eval calls with output", async () => {
+	it("should walk directory trees with File::Find", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/tree/a.pm", "");
+		fs.addFile("/tree/lib/b.pm", "");
+		fs.addFile("/tree/lib/deep/c.pm", "");
+
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		let result = await perl.eval('print "first "');
-		expectSuccess(result);
-		perl.flush();
-
-		result = await perl.eval('print "second"');
+		const result = await perl.eval(`
+			use File::Find;
+			my @found;
+			find(sub { push @found, $File::Find::name if /\\.pm$/ }, '/tree');
+			print join(",", sort @found);
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("first second");
+		expect(output).toBe("/tree/a.pm,/tree/lib/b.pm,/tree/lib/deep/c.pm");
 
 		perl.dispose();
 	});
 
-	it("should handle binary data output", async () => {
-		let output = new Uint8Array();
+	it("should read large directories across multiple fd_readdir calls", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		for (let i = 0; i < 500; i++) {
+			fs.addFile(`/many/file-with-a-fairly-long-name-${i}.txt`, "");
+		}
+
+		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
-				const bytes = typeof data === "string"
-					? new TextEncoder().encode(data)
-					: data;
-				const combined = new Uint8Array(output.length + bytes.length);
-				combined.set(output);
-				combined.set(bytes, output.length);
-				output = combined;
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval('print "test"');
+		const result = await perl.eval(`
+			opendir(my $dh, '/many') or die "opendir: $!";
+			my @entries = grep { !/^\\./ } readdir($dh);
+			closedir($dh);
+			my %seen = map { $_ => 1 } @entries;
+			print scalar(@entries), ",", scalar(keys %seen);
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(new TextDecoder().decode(output)).toBe("test");
+		expect(output).toBe("500,500");
 
 		perl.dispose();
 	});
-});
 
-describe("Environment", () => {
-	it("should pass environment variables", async () => {
+	it("should create and remove directories", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/file.txt", "not a directory");
+		fs.addFile("/full/keep.txt", "");
+
 		let output = "";
 		const perl = await ZeroPerl.create({
-			env: { MY_VAR: "test_value", ANOTHER: "value2" },
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval('print $ENV{MY_VAR} . " " . $ENV{ANOTHER}');
+		const result = await perl.eval(`
+			use Errno;
+			my @results;
+			push @results, mkdir('/made') ? "ok" : "fail";
+			push @results, mkdir('/made') ? "ok" : ($!{EEXIST} ? "EEXIST" : "$!");
+			push @results, mkdir('/missing/child') ? "ok" : ($!{ENOENT} ? "ENOENT" : "$!");
+			push @results, mkdir('/file.txt/child') ? "ok" : ($!{ENOTDIR} ? "ENOTDIR" : "$!");
+			push @results, rmdir('/full') ? "ok" : ($!{ENOTEMPTY} ? "ENOTEMPTY" : "$!");
+			push @results, rmdir('/file.txt') ? "ok" : ($!{ENOTDIR} ? "ENOTDIR" : "$!");
+			push @results, rmdir('/made') ? "ok" : "fail";
+			push @results, rmdir('/made') ? "ok" : ($!{ENOENT} ? "ENOENT" : "$!");
+			push @results, -d '/made' ? "exists" : "gone";
+			print join(",", @results);
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("test_value value2");
+		expect(output).toBe("ok,EEXIST,ENOENT,ENOTDIR,ENOTEMPTY,ENOTDIR,ok,ENOENT,gone");
 
 		perl.dispose();
 	});
 
-	it("should handle missing environment variables", async () => {
+	it("should create nested directories with File::Path and File::Temp", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+
 		let output = "";
 		const perl = await ZeroPerl.create({
-			env: {},
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval('print defined($ENV{NONEXISTENT}) ? "defined" : "undefined"');
+		const result = await perl.eval(`
+			use File::Path qw(make_path);
+			use File::Temp qw(tempdir);
+			make_path('/a/b/c') or die "make_path: $!";
+			my $tmp = tempdir(DIR => '/a');
+			print -d '/a/b/c' ? "made" : "missing", ",", -d $tmp ? "temp" : "missing";
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("undefined");
+		expect(output).toBe("made,temp");
+		expect(fs.lookup("/a/b/c")?.type).toBe("dir");
 
 		perl.dispose();
 	});
-});
-
-describe("Complex Scenarios", () => {
-	it("should handle complex nested data structures", async () => {
-		const perl = await ZeroPerl.create();
-
-		perl.setVariable("config", {
-			server: {
-				host: "localhost",
-				port: 8080,
-				ssl: true,
-			},
-			databases: [
-				{ name: "main", host: "db1.example.com" },
-				{ name: "cache", host: "db2.example.com" },
-			],
-			features: ["auth", "logging", "metrics"],
-		});
 
-		const val = perl.getVariable("config");
-		expect(val?.isRef()).toBe(true);
+	it("should create and remove directories from JavaScript", () => {
+		const fs = new MemoryFileSystem({ "/": "" });
 
-		val?.dispose();
-		perl.dispose();
+		fs.mkdir("/one/two", { recursive: true });
+		expect(fs.lookup("/one/two")?.type).toBe("dir");
+		expect(() => fs.mkdir("/one")).toThrow(FileSystemError);
+		expect(() => fs.mkdir("/missing/child")).toThrow(FileSystemError);
+
+		expect(() => fs.rmdir("/one")).toThrow(FileSystemError);
+		fs.rmdir("/one/two");
+		fs.rmdir("/one");
+		expect(fs.lookup("/one")).toBeNull();
+
+		let error: unknown;
+		try {
+			fs.rmdir("/one");
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(FileSystemError);
+		expect((error as FileSystemError).errno).toBe(44);
 	});
 
-	it("should maintain state across operations", async () => {
-		const perl = await ZeroPerl.create();
-
-		let result = await perl.eval("$counter = 0");
-		expectSuccess(result);
+	it("should unlink files", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/old.txt", "old");
+		fs.addFile("/dir/keep.txt", "");
 
-		result = await perl.eval("$counter++");
-		expectSuccess(result);
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-		result = await perl.eval("$counter++");
+		const result = await perl.eval(`
+			use Errno;
+			my @results;
+			push @results, unlink('/old.txt');
+			push @results, -e '/old.txt' ? "exists" : "gone";
+			push @results, unlink('/old.txt') ? "ok" : ($!{ENOENT} ? "ENOENT" : "$!");
+			push @results, unlink('/dir') ? "ok" : ($!{EISDIR} ? "EISDIR" : "$!");
+			print join(",", @results);
+		`);
 		expectSuccess(result);
+		perl.flush();
 
-		const counter = perl.getVariable("counter");
-		expect(counter?.toInt()).toBe(2);
+		expect(output).toBe("1,gone,ENOENT,EISDIR");
+		expect(fs.lookup("/old.txt")).toBeNull();
 
-		counter?.dispose();
 		perl.dispose();
 	});
 
-	it("should handle errors without losing state", async () => {
-		const perl = await ZeroPerl.create();
+	it("should atomically replace files with rename", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/state/current.json", "old");
 
-		perl.setVariable("x", 42);
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-		const result = await perl.eval('die "error"');
-		expectFailure(result);
+		const result = await perl.eval(`
+			mkdir('/tmp');
+			open my $out, '>', '/tmp/current.json.new' or die "open: $!";
+			print $out "new";
+			close $out;
+
+			open my $in, '<', '/state/current.json' or die "open: $!";
+			rename('/tmp/current.json.new', '/state/current.json') or die "rename: $!";
+			my $previous = <$in>;
+			close $in;
+
+			open $in, '<', '/state/current.json' or die "open: $!";
+			my $current = <$in>;
+			close $in;
+			print "$previous,$current,", (-e '/tmp/current.json.new' ? "left" : "moved");
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-		const x = perl.getVariable("x");
-		expect(x?.toInt()).toBe(42);
+		expect(output).toBe("old,new,moved");
 
-		x?.dispose();
 		perl.dispose();
 	});
 
-	it("should handle loops and complex logic", async () => {
-		const perl = await ZeroPerl.create();
+	it("should rename directories and report rename errors", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/src/lib/Module.pm", "1;");
+		fs.addFile("/file.txt", "");
+		fs.addFile("/full/entry.txt", "");
+
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
 		const result = await perl.eval(`
-			@array = (1, 2, 3, 4, 5);
-			$sum = 0;
-			foreach my $num (@array) {
-				$sum += $num;
-			}
+			use Errno;
+			use File::Copy qw(move);
+			my @results;
+			push @results, rename('/src', '/dst') ? "ok" : "$!";
+			push @results, -e '/dst/lib/Module.pm' ? "moved" : "missing";
+			push @results, rename('/missing', '/other') ? "ok" : ($!{ENOENT} ? "ENOENT" : "$!");
+			push @results, rename('/file.txt', '/dst') ? "ok" : ($!{EISDIR} ? "EISDIR" : "$!");
+			push @results, rename('/dst', '/file.txt') ? "ok" : ($!{ENOTDIR} ? "ENOTDIR" : "$!");
+			push @results, rename('/dst', '/full') ? "ok" : ($!{ENOTEMPTY} ? "ENOTEMPTY" : "$!");
+			push @results, rename('/dst', '/dst/lib/inner') ? "ok" : ($!{EINVAL} ? "EINVAL" : "$!");
+			push @results, move('/file.txt', '/dst/lib/file.txt') ? "ok" : "$!";
+			print join(",", @results);
 		`);
 		expectSuccess(result);
+		perl.flush();
 
-		const sum = perl.getVariable("sum");
-		expect(sum?.toInt()).toBe(15);
+		expect(output).toBe("ok,moved,ENOENT,EISDIR,ENOTDIR,ENOTEMPTY,EINVAL,ok");
+		expect(fs.lookup("/src")).toBeNull();
+		expect(fs.lookup("/dst/lib/file.txt")?.type).toBe("file");
 
-		sum?.dispose();
 		perl.dispose();
 	});
+});
+
+describe("Links", () => {
+	it("should create, inspect and follow symbolic links", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/real/data.txt", "through the link");
 
-	it("should work with JavaScript data in Perl code", async () => {
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		perl.setVariable("user", {
-			name: "Alice",
-			age: 30,
-			scores: [95, 87, 92],
-		});
-
-		const result = await perl.eval('print "$user->{name} is $user->{age} years old"');
+		const result = await perl.eval(`
+			mkdir('/links');
+			symlink('../real/data.txt', '/links/data.txt') or die "symlink: $!";
+			symlink('/real', '/links/dir') or die "symlink: $!";
+			my @results;
+			push @results, readlink('/links/data.txt');
+			push @results, -l '/links/data.txt' ? "link" : "not link";
+			push @results, -f '/links/data.txt' ? "file" : "not file";
+			push @results, -d '/links/dir' ? "dir" : "not dir";
+			push @results, (lstat('/links/data.txt'))[7];
+			open my $fh, '<', '/links/dir/data.txt' or die "open: $!";
+			push @results, scalar <$fh>;
+			close $fh;
+			print join(",", @results);
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("Alice is 30 years old");
+		expect(output).toBe("../real/data.txt,link,file,dir,16,through the link");
+		expect(fs.readlink("/links/dir")).toBe("/real");
 
 		perl.dispose();
 	});
 
-	it("should handle large data structures", async () => {
-		const perl = await ZeroPerl.create();
+	it("should detect symbolic link loops", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.symlink("/loop-b", "/loop-a");
+		fs.symlink("/loop-a", "/loop-b");
 
-		const largeArray = Array.from({ length: 1000 }, (_, i) => i);
-		perl.setVariable("numbers", largeArray);
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
 		const result = await perl.eval(`
-			$sum = 0;
-			foreach my $num (@$numbers) {
-				$sum += $num;
-			}
+			use Errno;
+			my @results;
+			push @results, open(my $fh, '<', '/loop-a') ? "opened" : ($!{ELOOP} ? "ELOOP" : "$!");
+			push @results, -l '/loop-a' ? "link" : "not link";
+			print join(",", @results);
 		`);
 		expectSuccess(result);
+		perl.flush();
 
-		const sum = perl.getVariable("sum");
-		expect(sum?.toInt()).toBe(499500);
+		expect(output).toBe("ELOOP,link");
+		expect(() => fs.lookup("/loop-a")).toThrow(FileSystemError);
+		expect(fs.lookup("/loop-a", { followSymlinks: false })?.type).toBe("symlink");
 
-		sum?.dispose();
 		perl.dispose();
 	});
 
-	it("should handle deeply nested structures", async () => {
+	it("should share content between hard links", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/original.txt", "shared");
+
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const nested = {
-			level1: {
-				level2: {
-					level3: {
-						level4: {
-							value: "deep",
-						},
-					},
-				},
-			},
-		};
-
-		perl.setVariable("nested", nested);
-
-		const result = await perl.eval('use Data::Dumper; print Dumper($nested);');
+		const result = await perl.eval(`
+			link('/original.txt', '/copy.txt') or die "link: $!";
+			my @results;
+			push @results, (stat('/original.txt'))[3];
+			push @results, (stat('/original.txt'))[1] == (stat('/copy.txt'))[1] ? "same inode" : "different inode";
+			open my $fh, '>>', '/copy.txt' or die "open: $!";
+			print $fh " content";
+			close $fh;
+			unlink('/original.txt') or die "unlink: $!";
+			push @results, (stat('/copy.txt'))[3];
+			open $fh, '<', '/copy.txt' or die "open: $!";
+			push @results, scalar <$fh>;
+			close $fh;
+			print join(",", @results);
+		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toContain("'value' => 'deep'");
+		expect(output).toBe("2,same inode,1,shared content");
+
 		perl.dispose();
 	});
 });
 
-describe("Edge Cases", () => {
-	it("should handle empty strings", async () => {
-		const perl = await ZeroPerl.create();
-		const val = perl.createString("");
+describe("File Timestamps", () => {
+	it("should report modification times that follow writes", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/input.txt", "source");
 
-		expect(val.toString()).toBe("");
-		expect(val.project()).toBe("");
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-		val.dispose();
-		perl.dispose();
-	});
+		const result = await perl.eval(`
+			my $start = time;
+			my $mtime = (stat('/input.txt'))[9];
+			my @results;
+			push @results, abs($mtime - $start) <= 2 ? "recent" : "stale:$mtime";
 
-	it("should handle special characters in strings", async () => {
-		const perl = await ZeroPerl.create();
-		const special = "Hello\nWorld\t!\0End";
-		const val = perl.createString(special);
+			utime(1_000_000_000, 1_000_000_000, '/input.txt') or die "utime: $!";
+			push @results, (stat('/input.txt'))[8], (stat('/input.txt'))[9];
 
-		expect(val.toString()).toBe(special);
+			open my $fh, '>', '/output.txt' or die "open: $!";
+			print $fh "built";
+			close $fh;
+			push @results, -M '/output.txt' < -M '/input.txt' ? "output newer" : "output older";
+
+			open $fh, '>>', '/input.txt' or die "open: $!";
+			print $fh " changed";
+			close $fh;
+			push @results, (stat('/input.txt'))[9] >= $start ? "touched" : "untouched";
+			print join(",", @results);
+		`);
+		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toBe("recent,1000000000,1000000000,output newer,touched");
 
-		val.dispose();
 		perl.dispose();
 	});
 
-	it("should handle Unicode strings", async () => {
-		const perl = await ZeroPerl.create();
-		const unicode = "Hello 世界 🌍";
-		const val = perl.createString(unicode);
-
-		expect(val.toString()).toBe(unicode);
+	it("should set times to now and keep File modification times", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/upload.txt", new File(["data"], "upload.txt", { lastModified: 1_500_000_000_000 }));
+		fs.addFile("/touch.txt", "data");
 
-		val.dispose();
-		perl.dispose();
-	});
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-	it("should handle zero values", async () => {
-		const perl = await ZeroPerl.create();
-		const zero = perl.createInt(0);
+		const result = await perl.eval(`
+			my @results;
+			push @results, (stat('/upload.txt'))[9];
+			utime(0, 0, '/touch.txt') or die "utime: $!";
+			push @results, (stat('/touch.txt'))[9];
+			utime(undef, undef, '/touch.txt') or die "utime: $!";
+			push @results, (stat('/touch.txt'))[9] > 0 ? "now" : "epoch";
+			print join(",", @results);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-		expect(zero.toInt()).toBe(0);
-		expect(zero.toBoolean()).toBe(false);
+		expect(output).toBe("1500000000,0,now");
 
-		zero.dispose();
 		perl.dispose();
 	});
 
-	it("should handle negative numbers", async () => {
-		const perl = await ZeroPerl.create();
-		const neg = perl.createInt(-42);
-
-		expect(neg.toInt()).toBe(-42);
+	it("should update directory times when entries change", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.mkdir("/work");
+		fs.addFile("/work/old.txt", "old");
 
-		neg.dispose();
-		perl.dispose();
-	});
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-	it("should handle very large numbers", async () => {
-		const perl = await ZeroPerl.create();
-		const large = perl.createDouble(Number.MAX_SAFE_INTEGER);
+		const result = await perl.eval(`
+			my @results;
+			for my $change (
+				sub { mkdir '/work/sub' or die "mkdir: $!" },
+				sub { rename '/work/old.txt', '/work/new.txt' or die "rename: $!" },
+				sub { unlink '/work/new.txt' or die "unlink: $!" },
+			) {
+				utime(0, 0, '/work') or die "utime: $!";
+				$change->();
+				push @results, (stat('/work'))[9] > 0 ? "updated" : "stale";
+			}
+			print join(",", @results);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-		expect(large.toDouble()).toBe(Number.MAX_SAFE_INTEGER);
+		expect(output).toBe("updated,updated,updated");
 
-		large.dispose();
 		perl.dispose();
 	});
+});
 
-	it("should handle empty arrays", async () => {
-		const perl = await ZeroPerl.create();
-		const arr = perl.createArray([]);
+describe("Truncation", () => {
+	it("should truncate and rewrite files in place", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/state.txt", "old state that is long");
+		fs.addFile("/log.txt", "0123456789");
 
-		expect(arr.getLength()).toBe(0);
-		expect(arr.project()).toEqual([]);
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-		arr.dispose();
-		perl.dispose();
-	});
+		const result = await perl.eval(`
+			open my $fh, '+<', '/state.txt' or die "open: $!";
+			truncate($fh, 0) or die "truncate: $!";
+			seek($fh, 0, 0);
+			print $fh "new";
+			close $fh;
 
-	it("should handle empty hashes", async () => {
-		const perl = await ZeroPerl.create();
-		const hash = perl.createHash({});
+			truncate('/log.txt', 4) or die "truncate: $!";
+			my @results = (-s '/state.txt', -s '/log.txt');
+			truncate('/log.txt', 6) or die "truncate: $!";
+			push @results, -s '/log.txt';
+			print join(",", @results);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-		expect(hash.project()).toEqual({});
+		expect(output).toBe("3,4,6");
+		const state = fs.lookup("/state.txt");
+		const log = fs.lookup("/log.txt");
+		expect(state?.type === "file" && new TextDecoder().decode(state.content as Uint8Array)).toBe("new");
+		expect(log?.type === "file" && Array.from(log.content as Uint8Array)).toEqual([48, 49, 50, 51, 0, 0]);
 
-		hash.dispose();
 		perl.dispose();
 	});
 
-	it("should handle null in arrays", async () => {
-		const perl = await ZeroPerl.create();
-		const arr = perl.createArray([1, null, 3]);
-
-		const val = arr.get(1);
-		expect(val?.isUndef()).toBe(true);
+	it("should resize and write Blob-backed files", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/blob.txt", new Blob(["blob content"]));
+		fs.addFile("/fresh.txt", new Blob(["blob content"]));
 
-		val?.dispose();
-		arr.dispose();
-		perl.dispose();
-	});
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-	it("should handle null in hashes", async () => {
-		const perl = await ZeroPerl.create();
-		const hash = perl.createHash({ key: null });
+		const result = await perl.eval(`
+			truncate('/blob.txt', 4) or die "truncate: $!";
+			open my $fh, '<', '/blob.txt' or die "open: $!";
+			my $content = <$fh>;
+			close $fh;
+			truncate('/blob.txt', 6) or die "truncate: $!";
+			open my $log, '>>', '/blob.txt' or die "append: $!";
+			print $log "!";
+			close $log or die "close: $!";
+
+			truncate('/fresh.txt', 3) or die "truncate: $!";
+			open my $rw, '+<', '/fresh.txt' or die "open: $!";
+			seek($rw, 3, 0);
+			print $rw "d";
+			close $rw or die "close: $!";
+			print $content, ",", -s '/blob.txt', ",", -s '/fresh.txt';
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-		const val = hash.get("key");
-		expect(val?.isUndef()).toBe(true);
+		expect(output).toBe("blob,7,4");
+		expect(Array.from(await fs.readFile("/blob.txt", "bytes"))).toEqual([98, 108, 111, 98, 0, 0, 33]);
+		expect(await fs.readFile("/fresh.txt", "utf8")).toBe("blod");
 
-		val?.dispose();
-		hash.dispose();
 		perl.dispose();
 	});
 });
 
-describe("Error Handling", () => {
-	it("should handle syntax errors", async () => {
-		const perl = await ZeroPerl.create();
-		const result = await perl.eval("$x = ;");
-
-		expectFailure(result);
-		expect(result.error).toBeTruthy();
-
-		perl.dispose();
-	});
+describe("Output Handling", () => {
+	it("should capture stdout", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-	it("should handle runtime errors", async () => {
-		const perl = await ZeroPerl.create();
-		const result = await perl.eval("$x = 1 / 0");
+		const result = await perl.eval('print "hello"');
+		expectSuccess(result);
+		perl.flush();
 
-		expectFailure(result);
-		expect(result.error).toContain("Illegal division by zero");
+		expect(output).toBe("hello");
 
 		perl.dispose();
 	});
 
-	it("should handle undefined variable access", async () => {
+	it("should capture stderr separately", async () => {
+		let stdout = "";
 		let stderr = "";
+
 		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				stdout += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 			stderr: (data) => {
 				stderr += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval("use warnings; print $undefined_var");
+		const result = await perl.eval('print "to stdout"; warn "to stderr"');
 		expectSuccess(result);
 		perl.flush();
 
-		expect(stderr).toContain("uninitialized");
+		expect(stdout).toBe("to stdout");
+		expect(stderr).toContain("to stderr");
 
 		perl.dispose();
 	});
 
-	it("should recover from errors", async () => {
-		const perl = await ZeroPerl.create();
-
-		const failResult = await perl.eval('die "error"');
-		expectFailure(failResult);
+	it("should handle multiple eval calls with output", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-		perl.clearError();
+		let result = await perl.eval('print "first "');
+		expectSuccess(result);
+		perl.flush();
 
-		const result = await perl.eval("$x = 42");
+		result = await perl.eval('print "second"');
 		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toBe("first second");
 
 		perl.dispose();
 	});
-});
 
-describe("Creation Options", () => {
-	it("should create with custom environment", async () => {
-		let output = "";
+	it("should handle binary data output", async () => {
+		let output = new Uint8Array();
 		const perl = await ZeroPerl.create({
-			env: { CUSTOM: "value" },
 			stdout: (data) => {
-				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+				const bytes = typeof data === "string"
+					? new TextEncoder().encode(data)
+					: data;
+				const combined = new Uint8Array(output.length + bytes.length);
+				combined.set(output);
+				combined.set(bytes, output.length);
+				output = combined;
 			},
 		});
 
-		const result = await perl.eval('print $ENV{CUSTOM}');
+		const result = await perl.eval('print "test"');
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("value");
+		expect(new TextDecoder().decode(output)).toBe("test");
 
 		perl.dispose();
 	});
+});
 
-	it("should create with custom file system", async () => {
-		const fs = new MemoryFileSystem({ "/": "" });
-		fs.addFile("/test.txt", "content");
-
+describe("Environment", () => {
+	it("should pass environment variables", async () => {
 		let output = "";
 		const perl = await ZeroPerl.create({
-			fileSystem: fs,
+			env: { MY_VAR: "test_value", ANOTHER: "value2" },
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval(`
-			open my $fh, '<', '/test.txt';
-			print <$fh>;
-			close $fh;
-		`);
+		const result = await perl.eval('print $ENV{MY_VAR} . " " . $ENV{ANOTHER}');
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("content");
+		expect(output).toBe("test_value value2");
 
 		perl.dispose();
 	});
 
-	it("should create with output handlers", async () => {
-		let stdout = "";
-		let stderr = "";
-
+	it("should handle missing environment variables", async () => {
+		let output = "";
 		const perl = await ZeroPerl.create({
+			env: {},
 			stdout: (data) => {
-				stdout += typeof data === "string" ? data : new TextDecoder().decode(data);
-			},
-			stderr: (data) => {
-				stderr += typeof data === "string" ? data : new TextDecoder().decode(data);
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
-		const result = await perl.eval('print "out"; warn "err"');
+		const result = await perl.eval('print defined($ENV{NONEXISTENT}) ? "defined" : "undefined"');
 		expectSuccess(result);
 		perl.flush();
 
-		expect(stdout).toBe("out");
-		expect(stderr).toContain("err");
+		expect(output).toBe("undefined");
 
 		perl.dispose();
 	});
 });
 
-describe("Unicode Character Handling", () => {
-	describe("Korean (한국어) Characters", () => {
-		it("should create and retrieve Korean strings", async () => {
-			const perl = await ZeroPerl.create();
-			const koreanText = "안녕하세요";
-			const val = perl.createString(koreanText);
-
-			expect(val.toString()).toBe(koreanText);
-			expect(val.project()).toBe(koreanText);
-			expect(val.toString().length).toBe(5);
+describe("Complex Scenarios", () => {
+	it("should handle complex nested data structures", async () => {
+		const perl = await ZeroPerl.create();
 
-			val.dispose();
-			perl.dispose();
+		perl.setVariable("config", {
+			server: {
+				host: "localhost",
+				port: 8080,
+				ssl: true,
+			},
+			databases: [
+				{ name: "main", host: "db1.example.com" },
+				{ name: "cache", host: "db2.example.com" },
+			],
+			features: ["auth", "logging", "metrics"],
 		});
 
-		it("should handle Korean text in variables", async () => {
-			const perl = await ZeroPerl.create();
-			const koreanText = "김철수";
+		const val = perl.getVariable("config");
+		expect(val?.isRef()).toBe(true);
 
-			perl.setVariable("name", koreanText);
+		val?.dispose();
+		perl.dispose();
+	});
+
+	it("should maintain state across operations", async () => {
+		const perl = await ZeroPerl.create();
+
+		let result = await perl.eval("$counter = 0");
+		expectSuccess(result);
+
+		result = await perl.eval("$counter++");
+		expectSuccess(result);
+
+		result = await perl.eval("$counter++");
+		expectSuccess(result);
+
+		const counter = perl.getVariable("counter");
+		expect(counter?.toInt()).toBe(2);
+
+		counter?.dispose();
+		perl.dispose();
+	});
+
+	it("should handle errors without losing state", async () => {
+		const perl = await ZeroPerl.create();
+
+		perl.setVariable("x", 42);
+
+		const result = await perl.eval('die "error"');
+		expectFailure(result);
+
+		const x = perl.getVariable("x");
+		expect(x?.toInt()).toBe(42);
+
+		x?.dispose();
+		perl.dispose();
+	});
+
+	it("should handle loops and complex logic", async () => {
+		const perl = await ZeroPerl.create();
+
+		const result = await perl.eval(`
+			@array = (1, 2, 3, 4, 5);
+			$sum = 0;
+			foreach my $num (@array) {
+				$sum += $num;
+			}
+		`);
+		expectSuccess(result);
+
+		const sum = perl.getVariable("sum");
+		expect(sum?.toInt()).toBe(15);
+
+		sum?.dispose();
+		perl.dispose();
+	});
+
+	it("should work with JavaScript data in Perl code", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		perl.setVariable("user", {
+			name: "Alice",
+			age: 30,
+			scores: [95, 87, 92],
+		});
+
+		const result = await perl.eval('print "$user->{name} is $user->{age} years old"');
+		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toBe("Alice is 30 years old");
+
+		perl.dispose();
+	});
+
+	it("should handle large data structures", async () => {
+		const perl = await ZeroPerl.create();
+
+		const largeArray = Array.from({ length: 1000 }, (_, i) => i);
+		perl.setVariable("numbers", largeArray);
+
+		const result = await perl.eval(`
+			$sum = 0;
+			foreach my $num (@$numbers) {
+				$sum += $num;
+			}
+		`);
+		expectSuccess(result);
+
+		const sum = perl.getVariable("sum");
+		expect(sum?.toInt()).toBe(499500);
+
+		sum?.dispose();
+		perl.dispose();
+	});
+
+	it("should handle deeply nested structures", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		const nested = {
+			level1: {
+				level2: {
+					level3: {
+						level4: {
+							value: "deep",
+						},
+					},
+				},
+			},
+		};
+
+		perl.setVariable("nested", nested);
+
+		const result = await perl.eval('use Data::Dumper; print Dumper($nested);');
+		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toContain("'value' => 'deep'");
+		perl.dispose();
+	});
+});
+
+describe("Edge Cases", () => {
+	it("should handle empty strings", async () => {
+		const perl = await ZeroPerl.create();
+		const val = perl.createString("");
+
+		expect(val.toString()).toBe("");
+		expect(val.project()).toBe("");
+
+		val.dispose();
+		perl.dispose();
+	});
+
+	it("should handle special characters in strings", async () => {
+		const perl = await ZeroPerl.create();
+		const special = "Hello\nWorld\t!\0End";
+		const val = perl.createString(special);
+
+		expect(val.toString()).toBe(special);
+
+		val.dispose();
+		perl.dispose();
+	});
+
+	it("should handle Unicode strings", async () => {
+		const perl = await ZeroPerl.create();
+		const unicode = "Hello 世界 🌍";
+		const val = perl.createString(unicode);
+
+		expect(val.toString()).toBe(unicode);
+
+		val.dispose();
+		perl.dispose();
+	});
+
+	it("should handle zero values", async () => {
+		const perl = await ZeroPerl.create();
+		const zero = perl.createInt(0);
+
+		expect(zero.toInt()).toBe(0);
+		expect(zero.toBoolean()).toBe(false);
+
+		zero.dispose();
+		perl.dispose();
+	});
+
+	it("should handle negative numbers", async () => {
+		const perl = await ZeroPerl.create();
+		const neg = perl.createInt(-42);
+
+		expect(neg.toInt()).toBe(-42);
+
+		neg.dispose();
+		perl.dispose();
+	});
+
+	it("should handle very large numbers", async () => {
+		const perl = await ZeroPerl.create();
+		const large = perl.createDouble(Number.MAX_SAFE_INTEGER);
+
+		expect(large.toDouble()).toBe(Number.MAX_SAFE_INTEGER);
+
+		large.dispose();
+		perl.dispose();
+	});
+
+	it("should handle empty arrays", async () => {
+		const perl = await ZeroPerl.create();
+		const arr = perl.createArray([]);
+
+		expect(arr.getLength()).toBe(0);
+		expect(arr.project()).toEqual([]);
+
+		arr.dispose();
+		perl.dispose();
+	});
+
+	it("should handle empty hashes", async () => {
+		const perl = await ZeroPerl.create();
+		const hash = perl.createHash({});
+
+		expect(hash.project()).toEqual({});
+
+		hash.dispose();
+		perl.dispose();
+	});
+
+	it("should handle null in arrays", async () => {
+		const perl = await ZeroPerl.create();
+		const arr = perl.createArray([1, null, 3]);
+
+		const val = arr.get(1);
+		expect(val?.isUndef()).toBe(true);
+
+		val?.dispose();
+		arr.dispose();
+		perl.dispose();
+	});
+
+	it("should handle null in hashes", async () => {
+		const perl = await ZeroPerl.create();
+		const hash = perl.createHash({ key: null });
+
+		const val = hash.get("key");
+		expect(val?.isUndef()).toBe(true);
+
+		val?.dispose();
+		hash.dispose();
+		perl.dispose();
+	});
+});
+
+describe("Error Handling", () => {
+	it("should handle syntax errors", async () => {
+		const perl = await ZeroPerl.create();
+		const result = await perl.eval("$x = ;");
+
+		expectFailure(result);
+		expect(result.error).toBeTruthy();
+
+		perl.dispose();
+	});
+
+	it("should handle runtime errors", async () => {
+		const perl = await ZeroPerl.create();
+		const result = await perl.eval("$x = 1 / 0");
+
+		expectFailure(result);
+		expect(result.error).toContain("Illegal division by zero");
+
+		perl.dispose();
+	});
+
+	it("should handle undefined variable access", async () => {
+		let stderr = "";
+		const perl = await ZeroPerl.create({
+			stderr: (data) => {
+				stderr += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		const result = await perl.eval("use warnings; print $undefined_var");
+		expectSuccess(result);
+		perl.flush();
+
+		expect(stderr).toContain("uninitialized");
+
+		perl.dispose();
+	});
+
+	it("should recover from errors", async () => {
+		const perl = await ZeroPerl.create();
+
+		const failResult = await perl.eval('die "error"');
+		expectFailure(failResult);
+
+		perl.clearError();
+
+		const result = await perl.eval("$x = 42");
+		expectSuccess(result);
+
+		perl.dispose();
+	});
+});
+
+describe("Creation Options", () => {
+	it("should create with custom environment", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			env: { CUSTOM: "value" },
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		const result = await perl.eval('print $ENV{CUSTOM}');
+		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toBe("value");
+
+		perl.dispose();
+	});
+
+	it("should create with custom file system", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/test.txt", "content");
+
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		const result = await perl.eval(`
+			open my $fh, '<', '/test.txt';
+			print <$fh>;
+			close $fh;
+		`);
+		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toBe("content");
+
+		perl.dispose();
+	});
+
+	it("should create with output handlers", async () => {
+		let stdout = "";
+		let stderr = "";
+
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				stdout += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+			stderr: (data) => {
+				stderr += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		const result = await perl.eval('print "out"; warn "err"');
+		expectSuccess(result);
+		perl.flush();
+
+		expect(stdout).toBe("out");
+		expect(stderr).toContain("err");
+
+		perl.dispose();
+	});
+});
+
+describe("Unicode Character Handling", () => {
+	describe("Korean (한국어) Characters", () => {
+		it("should create and retrieve Korean strings", async () => {
+			const perl = await ZeroPerl.create();
+			const koreanText = "안녕하세요";
+			const val = perl.createString(koreanText);
+
+			expect(val.toString()).toBe(koreanText);
+			expect(val.project()).toBe(koreanText);
+			expect(val.toString().length).toBe(5);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Korean text in variables", async () => {
+			const perl = await ZeroPerl.create();
+			const koreanText = "김철수";
+
+			perl.setVariable("name", koreanText);
 			const retrieved = perl.getVariable("name");
 
-			expect(retrieved?.toString()).toBe(koreanText);
-			expect(retrieved?.toString()).not.toMatch(/[�]/);
+			expect(retrieved?.toString()).toBe(koreanText);
+			expect(retrieved?.toString()).not.toMatch(/[�]/);
+
+			retrieved?.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Korean text with special characters", async () => {
+			const perl = await ZeroPerl.create();
+			const koreanText = "안녕하세요! 반갑습니다? (한국어)";
+
+			perl.setVariable("greeting", koreanText);
+			const retrieved = perl.getVariable("greeting");
+
+			expect(retrieved?.toString()).toBe(koreanText);
+
+			retrieved?.dispose();
+			perl.dispose();
+		});
+
+		it("should output Korean text correctly", async () => {
+			let output = "";
+			const perl = await ZeroPerl.create({
+				stdout: (data) => {
+					output += typeof data === "string" ? data : new TextDecoder().decode(data);
+				},
+			});
+
+			const koreanText = "안녕하세요";
+			perl.setVariable("msg", koreanText);
+
+			const result = await perl.eval('print $msg');
+			expectSuccess(result);
+			perl.flush();
+
+			expect(output).toBe(koreanText);
+			expect(output).not.toMatch(/[�]/);
+
+			perl.dispose();
+		});
+	});
+
+	describe("Japanese (日本語) Characters", () => {
+		it("should create and retrieve Japanese strings", async () => {
+			const perl = await ZeroPerl.create();
+			const japaneseText = "こんにちは世界";
+			const val = perl.createString(japaneseText);
+
+			expect(val.toString()).toBe(japaneseText);
+			expect(val.project()).toBe(japaneseText);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should handle mixed Hiragana, Katakana, and Kanji", async () => {
+			const perl = await ZeroPerl.create();
+			const japaneseText = "ひらがな カタカナ 漢字";
+
+			perl.setVariable("text", japaneseText);
+			const retrieved = perl.getVariable("text");
+
+			expect(retrieved?.toString()).toBe(japaneseText);
+
+			retrieved?.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Japanese text in arrays", async () => {
+			const perl = await ZeroPerl.create();
+			const items = ["東京", "大阪", "京都"];
+			const arr = perl.createArray(items);
+
+			expect(arr.getLength()).toBe(3);
+
+			const val0 = arr.get(0);
+			expect(val0?.toString()).toBe("東京");
+
+			const val1 = arr.get(1);
+			expect(val1?.toString()).toBe("大阪");
+
+			const projected = arr.project();
+			expect(projected).toEqual(items);
+
+			val0?.dispose();
+			val1?.dispose();
+			arr.dispose();
+			perl.dispose();
+		});
+	});
+
+	describe("Chinese (中文) Characters", () => {
+		it("should handle Simplified Chinese text", async () => {
+			const perl = await ZeroPerl.create();
+			const chineseText = "你好世界";
+			const val = perl.createString(chineseText);
+
+			expect(val.toString()).toBe(chineseText);
+			expect(val.toString()).not.toMatch(/[�]/);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Traditional Chinese text", async () => {
+			const perl = await ZeroPerl.create();
+			const chineseText = "繁體中文測試";
+
+			perl.setVariable("text", chineseText);
+			const retrieved = perl.getVariable("text");
+
+			expect(retrieved?.toString()).toBe(chineseText);
+
+			retrieved?.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Chinese text in hashes", async () => {
+			const perl = await ZeroPerl.create();
+			const data = {
+				城市: "北京",
+				国家: "中国",
+			};
+			const hash = perl.createHash(data);
+
+			const city = hash.get("城市");
+			expect(city?.toString()).toBe("北京");
+
+			const country = hash.get("国家");
+			expect(country?.toString()).toBe("中国");
+
+			city?.dispose();
+			country?.dispose();
+			hash.dispose();
+			perl.dispose();
+		});
+	});
+
+	describe("Mixed Unicode and Multilingual", () => {
+		it("should handle mixed language text", async () => {
+			const perl = await ZeroPerl.create();
+			const mixedText = "Hello 안녕하세요 こんにちは 你好";
+			const val = perl.createString(mixedText);
+
+			expect(val.toString()).toBe(mixedText);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should handle emoji and extended Unicode", async () => {
+			const perl = await ZeroPerl.create();
+			const emojiText = "📷 Photo by 김철수 🌸";
+			const val = perl.createString(emojiText);
+
+			expect(val.toString()).toBe(emojiText);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Unicode in nested structures", async () => {
+			const perl = await ZeroPerl.create();
+			const nested = {
+				user: {
+					name: "田中太郎",
+					city: "東京",
+				},
+				tags: ["写真", "旅行", "食べ物"],
+			};
+
+			perl.setVariable("data", nested);
+			const retrieved = perl.getVariable("data");
+
+			expect(retrieved?.isRef()).toBe(true);
+
+			retrieved?.dispose();
+			perl.dispose();
+		});
+
+		it("should round-trip Unicode arrays", async () => {
+			const perl = await ZeroPerl.create();
+			const original = ["Hello", "안녕", "こんにちは", "你好", "🌍"];
+			const arr = perl.createArray(original);
+			const result = arr.project();
+
+			expect(result).toEqual(original);
+
+			arr.dispose();
+			perl.dispose();
+		});
+
+		it("should round-trip Unicode hashes", async () => {
+			const perl = await ZeroPerl.create();
+			const original = {
+				english: "Hello",
+				korean: "안녕하세요",
+				japanese: "こんにちは",
+				chinese: "你好",
+				emoji: "🎉",
+			};
+			const hash = perl.createHash(original);
+			const result = hash.project();
+
+			expect(result).toEqual(original);
+
+			hash.dispose();
+			perl.dispose();
+		});
+	});
+
+	describe("Unicode in Perl Operations", () => {
+		it("should handle Unicode in eval code with 'use utf8' pragma", async () => {
+			const perl = await ZeroPerl.create();
+			const result = await perl.eval('use utf8; $greeting = "안녕하세요"');
+			expectSuccess(result);
+
+			const greeting = perl.getVariable("greeting");
+			expect(greeting?.toString()).toBe("안녕하세요");
+
+			greeting?.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Unicode in Perl string operations with 'use utf8' pragma", async () => {
+			let output = "";
+			const perl = await ZeroPerl.create({
+				stdout: (data) => {
+					output += typeof data === "string" ? data : new TextDecoder().decode(data);
+				},
+			});
+
+			perl.setVariable("name", "김철수");
+
+			const result = await perl.eval('use utf8; $msg = "안녕하세요, $name!"; print $msg');
+			expectSuccess(result);
+			perl.flush();
+
+			expect(output).toBe("안녕하세요, 김철수!");
+
+			perl.dispose();
+		});
+
+		it("should handle Unicode passed via setVariable without pragma", async () => {
+			let output = "";
+			const perl = await ZeroPerl.create({
+				stdout: (data) => {
+					output += typeof data === "string" ? data : new TextDecoder().decode(data);
+				},
+			});
+
+			perl.setVariable("greeting", "안녕하세요");
+			perl.setVariable("name", "김철수");
+
+			const result = await perl.eval('print "$greeting, $name!"');
+			expectSuccess(result);
+			perl.flush();
+
+			expect(output).toBe("안녕하세요, 김철수!");
+
+			perl.dispose();
+		});
+
+		it("should handle Unicode in host functions with pragma", async () => {
+			const perl = await ZeroPerl.create();
+
+			perl.registerFunction("greet", (name) => {
+				const n = name.toString();
+				return perl.createString(`안녕하세요, ${n}!`);
+			});
+
+			const result = await perl.eval('use utf8; $result = greet("田中")');
+			expectSuccess(result);
+
+			const perlResult = perl.getVariable("result");
+			expect(perlResult?.toString()).toBe("안녕하세요, 田中!");
+
+			perlResult?.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Unicode in host functions via setVariable", async () => {
+			const perl = await ZeroPerl.create();
+
+			perl.registerFunction("greet", (name) => {
+				const n = name.toString();
+				return perl.createString(`안녕하세요, ${n}!`);
+			});
+
+			perl.setVariable("name_arg", "田中");
+
+			const result = await perl.eval('$result = greet($name_arg)');
+			expectSuccess(result);
+
+			const perlResult = perl.getVariable("result");
+			expect(perlResult?.toString()).toBe("안녕하세요, 田中!");
+
+			perlResult?.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Unicode in Perl subroutine calls", async () => {
+			const perl = await ZeroPerl.create();
+
+			const result = await perl.eval('sub echo { return $_[0]; }');
+			expectSuccess(result);
+
+			const arg = perl.createString("こんにちは世界");
+			const callResult = await perl.call("echo", [arg], "scalar");
+
+			expect(callResult?.toString()).toBe("こんにちは世界");
+
+			arg.dispose();
+			callResult?.dispose();
+			perl.dispose();
+		});
+
+		it("should corrupt Unicode in source code without 'use utf8' pragma", async () => {
+			const perl = await ZeroPerl.create();
+			const result = await perl.eval('$greeting = "안녕하세요"');
+			expectSuccess(result);
+
+			const greeting = perl.getVariable("greeting");
+			const retrieved = greeting?.toString();
+
+			expect(retrieved).not.toBe("안녕하세요");
+			expect(retrieved?.length).toBeGreaterThan(5);
+
+			greeting?.dispose();
+			perl.dispose();
+		});
+	});
+
+	describe("Unicode Byte Length Validation", () => {
+		it("should preserve correct byte length for Korean text", async () => {
+			const perl = await ZeroPerl.create();
+			const koreanText = "안녕하세요";
+			const expectedByteLength = new TextEncoder().encode(koreanText).length;
+
+			const val = perl.createString(koreanText);
+			const retrieved = val.toString();
+			const actualByteLength = new TextEncoder().encode(retrieved).length;
+
+			expect(actualByteLength).toBe(expectedByteLength);
+			expect(retrieved.length).toBe(koreanText.length);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should preserve correct byte length for emoji", async () => {
+			const perl = await ZeroPerl.create();
+			const emojiText = "🎉🌸📷";
+			const expectedByteLength = new TextEncoder().encode(emojiText).length;
+
+			const val = perl.createString(emojiText);
+			const retrieved = val.toString();
+			const actualByteLength = new TextEncoder().encode(retrieved).length;
+
+			expect(actualByteLength).toBe(expectedByteLength);
+
+			val.dispose();
+			perl.dispose();
+		});
+	});
+
+	describe("Unicode Edge Cases", () => {
+		it("should handle very long Unicode text", async () => {
+			const perl = await ZeroPerl.create();
+			const longText = "안녕하세요".repeat(100);
+
+			const val = perl.createString(longText);
+			const retrieved = val.toString();
+
+			expect(retrieved).toBe(longText);
+			expect(retrieved.length).toBe(500);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Unicode with null bytes", async () => {
+			const perl = await ZeroPerl.create();
+			const text = "안녕\0하세요";
+
+			const val = perl.createString(text);
+			const retrieved = val.toString();
+
+			expect(retrieved).toBe(text);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should handle Unicode newlines and whitespace", async () => {
+			const perl = await ZeroPerl.create();
+			const text = "こんにちは\n世界\t日本";
+
+			const val = perl.createString(text);
+			const retrieved = val.toString();
+
+			expect(retrieved).toBe(text);
+
+			val.dispose();
+			perl.dispose();
+		});
+
+		it("should detect corruption via replacement characters", async () => {
+			const perl = await ZeroPerl.create();
+			const koreanText = "안녕하세요";
+
+			perl.setVariable("text", koreanText);
+			const retrieved = perl.getVariable("text");
+			const result = retrieved?.toString();
+
+			expect(result).not.toContain("�");
+			expect(result).not.toContain("HUX8");
+			expect(result).toMatch(/[\u3131-\uD79D]/);
+
+			retrieved?.dispose();
+			perl.dispose();
+		});
+
+		it("should handle combining characters", async () => {
+			const perl = await ZeroPerl.create();
+			const text = "가나다라마";
+
+			const val = perl.createString(text);
+			const retrieved = val.toString();
+
+			expect(retrieved).toBe(text);
+
+			val.dispose();
+			perl.dispose();
+		});
+	});
+});
+
+describe("Perl Build Configuration", () => {
+	it("should have consistent integer type sizes between runtime and config", async () => {
+		const perl = await ZeroPerl.create();
+
+		const result = await perl.eval(`
+			use Config;
+			my @errors;
+			
+			my $iv_pack = length(pack("j", 0));
+			my $uv_pack = length(pack("J", 0));
+			my $ptr_pack = length(pack("P", 0));
+			my $long_pack = length(pack("l!", 0));
+			my $longlong_pack = length(pack("q", 0));
+			
+			push @errors, "IV: pack=$iv_pack config=$Config{ivsize}" if $iv_pack != $Config{ivsize};
+			push @errors, "UV: pack=$uv_pack config=$Config{uvsize}" if $uv_pack != $Config{uvsize};
+			push @errors, "Pointer: pack=$ptr_pack config=$Config{ptrsize}" if $ptr_pack != $Config{ptrsize};
+			push @errors, "long: pack=$long_pack config=$Config{longsize}" if $long_pack != $Config{longsize};
+			push @errors, "long long: pack=$longlong_pack config=$Config{longlongsize}" if $longlong_pack != $Config{longlongsize};
+			
+			die "Type size mismatches: " . join(", ", @errors) if @errors;
+		`);
+		expectSuccess(result);
+
+		perl.dispose();
+	});
+
+	it("should have correct WASM32 type sizes", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-			retrieved?.dispose();
-			perl.dispose();
+		const result = await perl.eval(`
+			use Config;
+			print "$Config{ptrsize},$Config{longsize},$Config{longlongsize},$Config{ivsize},$Config{lseeksize}";
+		`);
+		expectSuccess(result);
+		perl.flush();
+
+		const [ptrsize, longsize, longlongsize, ivsize, lseeksize] = output.split(",").map(Number);
+
+		expect(ptrsize).toBe(4);
+		expect(longsize).toBe(4);
+		expect(longlongsize).toBe(8);
+		expect(ivsize).toBe(8);
+		expect(lseeksize).toBe(8);
+
+		perl.dispose();
+	});
+
+	it("should have 64-bit integer support for large files", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should handle Korean text with special characters", async () => {
-			const perl = await ZeroPerl.create();
-			const koreanText = "안녕하세요! 반갑습니다? (한국어)";
+		const result = await perl.eval(`
+			use Config;
+			my $ok = $Config{ivsize} >= $Config{lseeksize} ? 1 : 0;
+			print "$ok,$Config{ivsize},$Config{lseeksize}";
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			perl.setVariable("greeting", koreanText);
-			const retrieved = perl.getVariable("greeting");
+		const [ok, ivsize, lseeksize] = output.split(",").map(Number);
 
-			expect(retrieved?.toString()).toBe(koreanText);
+		expect(ok).toBe(1);
+		expect(ivsize).toBeGreaterThanOrEqual(lseeksize);
 
-			retrieved?.dispose();
-			perl.dispose();
+		perl.dispose();
+	});
+
+	it("should use long long for 64-bit types", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should output Korean text correctly", async () => {
-			let output = "";
-			const perl = await ZeroPerl.create({
-				stdout: (data) => {
-					output += typeof data === "string" ? data : new TextDecoder().decode(data);
-				},
-			});
+		const result = await perl.eval(`
+			use Config;
+			print "$Config{ivtype}|$Config{uvtype}|$Config{i64type}|$Config{u64type}";
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			const koreanText = "안녕하세요";
-			perl.setVariable("msg", koreanText);
+		const [ivtype, uvtype, i64type, u64type] = output.split("|");
 
-			const result = await perl.eval('print $msg');
-			expectSuccess(result);
-			perl.flush();
+		expect(ivtype).toBe("long long");
+		expect(uvtype).toBe("unsigned long long");
+		expect(i64type).toBe("long long");
+		expect(u64type).toBe("unsigned long long");
 
-			expect(output).toBe(koreanText);
-			expect(output).not.toMatch(/[�]/);
+		perl.dispose();
+	});
+});
 
-			perl.dispose();
+describe("Perl I/O Operations", () => {
+	it("should handle binary read-seek-read pattern", async () => {
+		const fs = new MemoryFileSystem({ "/": "/" });
+
+		const encoder = new TextEncoder();
+		const parts: Uint8Array[] = [];
+
+		parts.push(encoder.encode("channels\0chlist\0"));
+		parts.push(new Uint8Array([20, 0, 0, 0]));
+		parts.push(new Uint8Array(20).fill(0xAA));
+
+		parts.push(encoder.encode("compression\0compression\0"));
+		parts.push(new Uint8Array([1, 0, 0, 0]));
+		parts.push(new Uint8Array([3]));
+
+		parts.push(new Uint8Array([0]));
+
+		const totalLength = parts.reduce((acc, p) => acc + p.length, 0);
+		const fileData = new Uint8Array(totalLength);
+		let offset = 0;
+		for (const part of parts) {
+			fileData.set(part, offset);
+			offset += part.length;
+		}
+
+		fs.addFile("/test.bin", fileData);
+
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		const result = await perl.eval(`
+			open my $fh, '<:raw', '/test.bin' or die "Cannot open: $!";
+			my @attributes;
+			
+			while (1) {
+				my $bytes = sysread($fh, my $buff, 69);
+				die "Read failed" unless defined $bytes;
+				last if $bytes == 0;
+				last if $buff =~ /^\\0/;
+				
+				unless ($buff =~ /^([^\\0]+)\\0([^\\0]+)\\0(.{4})/s) {
+					die "Pattern match failed";
+				}
+				
+				my ($name, $type, $size_bytes) = ($1, $2, $3);
+				my $size = unpack('V', $size_bytes);
+				
+				my $match_end = length($name) + 1 + length($type) + 1 + 4;
+				my $seek_offset = $match_end - length($buff);
+				sysseek($fh, $seek_offset, 1) or die "Seek failed: $!";
+				
+				my $data_read = sysread($fh, my $data, $size);
+				die "Data read failed" unless $data_read == $size;
+				
+				push @attributes, "$name:$type:$size";
+			}
+			
+			close $fh;
+			print join(",", @attributes);
+		`);
+		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toContain("channels:chlist:20");
+		expect(output).toContain("compression:compression:1");
+
+		perl.dispose();
+	});
+
+	it("should correctly pack and unpack 64-bit integers", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
+
+		const result = await perl.eval(`
+			my $big = 0x123456789ABCDEF0;
+			my $packed = pack("q", $big);
+			my $unpacked = unpack("q", $packed);
+			
+			if ($unpacked == $big) {
+				print "OK";
+			} else {
+				print "FAIL:expected=$big,got=$unpacked";
+			}
+		`);
+		expectSuccess(result);
+		perl.flush();
+
+		expect(output).toBe("OK");
+
+		perl.dispose();
+	});
+});
+
+describe("Time::HiRes", () => {
+	it("should load Time::HiRes module", async () => {
+		const perl = await ZeroPerl.create();
+
+		const result = await perl.eval(`use Time::HiRes; 1;`);
+		expectSuccess(result);
+
+		perl.dispose();
 	});
 
-	describe("Japanese (日本語) Characters", () => {
-		it("should create and retrieve Japanese strings", async () => {
-			const perl = await ZeroPerl.create();
-			const japaneseText = "こんにちは世界";
-			const val = perl.createString(japaneseText);
+	it("should get high-resolution time", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-			expect(val.toString()).toBe(japaneseText);
-			expect(val.project()).toBe(japaneseText);
+		const result = await perl.eval(`
+			use Time::HiRes qw(gettimeofday);
+			my ($sec, $usec) = gettimeofday();
+			print "$sec,$usec";
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			val.dispose();
-			perl.dispose();
+		const [sec, usec] = output.split(",").map(Number);
+		expect(sec).toBeGreaterThan(1577836800);
+		expect(usec).toBeGreaterThanOrEqual(0);
+		expect(usec).toBeLessThan(1000000);
+
+		perl.dispose();
+	});
+
+	it("should get time as float", async () => {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should handle mixed Hiragana, Katakana, and Kanji", async () => {
-			const perl = await ZeroPerl.create();
-			const japaneseText = "ひらがな カタカナ 漢字";
+		const result = await perl.eval(`
+			use Time::HiRes qw(time);
+			my $t = time();
+			print $t;
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			perl.setVariable("text", japaneseText);
-			const retrieved = perl.getVariable("text");
+		const t = parseFloat(output);
+		expect(t).toBeGreaterThan(1577836800);
+		expect(output).toContain(".");
+
+		perl.dispose();
+	});
+});
 
-			expect(retrieved?.toString()).toBe(japaneseText);
+describe("Read-only Files", () => {
+	it("should reject changes to read-only files", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/config.ini", "key=value", { readonly: true });
 
-			retrieved?.dispose();
-			perl.dispose();
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should handle Japanese text in arrays", async () => {
-			const perl = await ZeroPerl.create();
-			const items = ["東京", "大阪", "京都"];
-			const arr = perl.createArray(items);
+		const result = await perl.eval(`
+			open my $in, '<', '/config.ini' or die "read: $!";
+			my $content = <$in>;
+			close $in;
+			my @errors;
+			push @errors, open(my $out, '>', '/config.ini') ? "written" : "$!";
+			push @errors, open(my $log, '>>', '/config.ini') ? "appended" : "$!";
+			push @errors, unlink('/config.ini') ? "unlinked" : "$!";
+			push @errors, rename('/config.ini', '/moved.ini') ? "renamed" : "$!";
+			print join("|", $content, @errors);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			expect(arr.getLength()).toBe(3);
+		expect(output).toBe(
+			"key=value|Permission denied|Permission denied|Permission denied|Permission denied",
+		);
+		const node = fs.lookup("/config.ini");
+		expect(node?.type === "file" && new TextDecoder().decode(node.content as Uint8Array)).toBe("key=value");
+		perl.dispose();
+	});
 
-			const val0 = arr.get(0);
-			expect(val0?.toString()).toBe("東京");
+	it("should protect a read-only preopen", async () => {
+		const fs = new MemoryFileSystem({ "/": "", "/lib": "" });
+		fs.addFile("/lib/Shared.pm", "package Shared; sub greet { 'hello' } 1;");
+		fs.setReadonly("/lib");
 
-			const val1 = arr.get(1);
-			expect(val1?.toString()).toBe("大阪");
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-			const projected = arr.project();
-			expect(projected).toEqual(items);
+		const result = await perl.eval(`
+			use lib '/lib';
+			require Shared;
+			my @results = (Shared::greet());
+			push @results, open(my $out, '>', '/lib/Shared.pm') ? "written" : "$!";
+			push @results, open(my $new, '>', '/lib/New.pm') ? "created" : "$!";
+			push @results, mkdir('/lib/sub') ? "mkdir" : "$!";
+			push @results, unlink('/lib/Shared.pm') ? "unlinked" : "$!";
+			push @results, rename('/lib/Shared.pm', '/Shared.pm') ? "renamed" : "$!";
+			push @results, link('/lib/Shared.pm', '/Shared.pm') ? "linked" : "$!";
+			open my $tmp, '>', '/scratch.txt' or die "scratch: $!";
+			print $tmp "ok";
+			close $tmp;
+			push @results, -s '/scratch.txt';
+			print join("|", @results);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			val0?.dispose();
-			val1?.dispose();
-			arr.dispose();
-			perl.dispose();
-		});
+		expect(output).toBe(
+			"hello|Read-only file system|Read-only file system|Read-only file system|Read-only file system|Read-only file system|Cross-device link|2",
+		);
+		expect(fs.lookup("/lib/Shared.pm")?.type).toBe("file");
+		expect(fs.lookup("/lib/New.pm")).toBeNull();
+		perl.dispose();
 	});
 
-	describe("Chinese (中文) Characters", () => {
-		it("should handle Simplified Chinese text", async () => {
-			const perl = await ZeroPerl.create();
-			const chineseText = "你好世界";
-			const val = perl.createString(chineseText);
-
-			expect(val.toString()).toBe(chineseText);
-			expect(val.toString()).not.toMatch(/[�]/);
+	it("should report and enforce descriptor rights", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/locked.txt", "locked", { readonly: true });
+		fs.addFile("/open.txt", "open");
+		const wasi = await createWasiHarness(fs);
+		const fdWrite = 1n << 6n;
+		const fdRead = 1n << 1n;
+
+		const locked = await wasi.open("/locked.txt", 0, fdRead);
+		expect(await wasi.call("fd_fdstat_get", locked, 16)).toBe(0);
+		expect(wasi.u64(24) & fdWrite).toBe(0n);
+		expect(await wasi.call("fd_write", locked, wasi.iov(new TextEncoder().encode("x")), 1, 16)).toBe(76);
+
+		const readOnly = await wasi.open("/open.txt", 0, fdRead);
+		expect(await wasi.call("fd_write", readOnly, wasi.iov(new TextEncoder().encode("x")), 1, 16)).toBe(76);
+		expect(await wasi.call("fd_read", readOnly, wasi.iov(4), 1, 16)).toBe(0);
+		expect(wasi.u32(16)).toBe(4);
+
+		const writable = await wasi.open("/open.txt");
+		expect(await wasi.call("fd_fdstat_get", writable, 16)).toBe(0);
+		expect(wasi.u64(24) & fdWrite).toBe(fdWrite);
+	});
 
-			val.dispose();
-			perl.dispose();
-		});
+	it("should check the path rights of directory descriptors", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/dir/file.txt", "file");
+		fs.mkdir("/dir/empty");
+		const wasi = await createWasiHarness(fs);
+		const all = (1n << 29n) - 1n;
+		const pathOpen = 1n << 13n;
+		const path = (text: string, at = 1024) => {
+			const encoded = new TextEncoder().encode(text);
+			wasi.bytes().set(encoded, at);
+			return [at, encoded.byteLength] as const;
+		};
 
-		it("should handle Traditional Chinese text", async () => {
-			const perl = await ZeroPerl.create();
-			const chineseText = "繁體中文測試";
+		// A descriptor that may open the entries of its directory, but not change them.
+		const limited = await wasi.open("dir", 2, pathOpen | (1n << 1n));
+		expect(await wasi.call("path_open", limited, 1, ...path("file.txt"), 0, all, all, 0, 16)).toBe(0);
+		expect(await wasi.call("path_open", limited, 1, ...path("new.txt"), 1, all, all, 0, 16)).toBe(76);
+		expect(await wasi.call("path_create_directory", limited, ...path("new"))).toBe(76);
+		expect(await wasi.call("path_remove_directory", limited, ...path("empty"))).toBe(76);
+		expect(await wasi.call("path_unlink_file", limited, ...path("file.txt"))).toBe(76);
+		expect(await wasi.call("path_filestat_set_times", limited, 0, ...path("file.txt"), 0n, 0n, 0)).toBe(76);
+		expect(await wasi.call("path_symlink", ...path("file.txt"), limited, ...path("link", 1536))).toBe(76);
+		expect(await wasi.call("path_rename", limited, ...path("file.txt"), 3, ...path("moved.txt", 1536))).toBe(76);
+		expect(await wasi.call("path_rename", 3, ...path("dir/file.txt"), limited, ...path("moved.txt", 1536))).toBe(
+			76,
+		);
+		expect(await wasi.call("path_link", limited, 0, ...path("file.txt"), 3, ...path("hard.txt", 1536))).toBe(76);
+		expect(await wasi.call("path_link", 3, 0, ...path("dir/file.txt"), limited, ...path("hard.txt", 1536))).toBe(
+			76,
+		);
+
+		const unopenable = await wasi.open("dir", 2, all & ~pathOpen);
+		expect(await wasi.call("path_open", unopenable, 1, ...path("file.txt"), 0, all, all, 0, 16)).toBe(76);
+		expect(fs.readdir("/dir").sort()).toEqual(["empty", "file.txt"]);
+		expect(fs.exists("/moved.txt") || fs.exists("/hard.txt") || fs.exists("/link")).toBe(false);
+	});
 
-			perl.setVariable("text", chineseText);
-			const retrieved = perl.getVariable("text");
+	it("should withhold write rights from a read-only preopen", async () => {
+		const fs = new MemoryFileSystem({ "/": "", "/lib": "" });
+		fs.setReadonly("/lib");
+		const wasi = await createWasiHarness(fs);
+		const fdWrite = 1n << 6n;
+		const pathCreateFile = 1n << 10n;
+
+		expect(await wasi.call("fd_fdstat_get", 4, 16)).toBe(0);
+		expect(wasi.u64(24) & (fdWrite | pathCreateFile)).toBe(0n);
+		expect(wasi.u64(32) & fdWrite).toBe(0n);
+		expect(await wasi.call("fd_fdstat_get", 3, 16)).toBe(0);
+		expect(wasi.u64(32) & fdWrite).toBe(fdWrite);
+	});
+});
 
-			expect(retrieved?.toString()).toBe(chineseText);
+describe("File Descriptors", () => {
+	it("should read at an offset without moving the file position", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/data.txt", "0123456789");
+		fs.addFile("/blob.txt", new Blob(["blob content"]));
+		const wasi = await createWasiHarness(fs);
+		const decode = (length: number) => new TextDecoder().decode(wasi.bytes().slice(64, 64 + length));
+
+		const fd = await wasi.open("/data.txt");
+		expect(await wasi.call("fd_pread", fd, wasi.iov(3), 1, 4n, 16)).toBe(0);
+		expect(decode(wasi.u32(16))).toBe("456");
+		expect(await wasi.call("fd_read", fd, wasi.iov(3), 1, 16)).toBe(0);
+		expect(decode(wasi.u32(16))).toBe("012");
+		expect(await wasi.call("fd_pread", fd, wasi.iov(8), 1, 8n, 16)).toBe(0);
+		expect(decode(wasi.u32(16))).toBe("89");
+
+		const blobFd = await wasi.open("/blob.txt");
+		expect(await wasi.call("fd_pread", blobFd, wasi.iov(16), 1, 5n, 16)).toBe(0);
+		expect(decode(wasi.u32(16))).toBe("content");
+		expect(await wasi.call("fd_tell", blobFd, 16)).toBe(0);
+		expect(wasi.u64(16)).toBe(0n);
+	});
 
-			retrieved?.dispose();
-			perl.dispose();
-		});
+	it("should write at an offset and zero-fill holes", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/data.bin", "abc");
+		const wasi = await createWasiHarness(fs);
+
+		const fd = await wasi.open("/data.bin");
+		expect(await wasi.call("fd_pwrite", fd, wasi.iov(new TextEncoder().encode("xy")), 1, 5n, 16)).toBe(0);
+		expect(wasi.u32(16)).toBe(2);
+		expect(await wasi.call("fd_write", fd, wasi.iov(new TextEncoder().encode("Z")), 1, 16)).toBe(0);
+
+		const node = fs.lookup("/data.bin");
+		expect(node?.type === "file" && Array.from(node.content as Uint8Array)).toEqual([
+			90, 98, 99, 0, 0, 120, 121,
+		]);
+		expect(await wasi.call("fd_pwrite", 0, wasi.iov(1), 1, 0n, 16)).toBe(70);
+	});
 
-		it("should handle Chinese text in hashes", async () => {
-			const perl = await ZeroPerl.create();
-			const data = {
-				城市: "北京",
-				国家: "中国",
-			};
-			const hash = perl.createHash(data);
+	it("should give every open its own file position", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/shared.txt", "line1\nline2\nline3\n");
 
-			const city = hash.get("城市");
-			expect(city?.toString()).toBe("北京");
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-			const country = hash.get("国家");
-			expect(country?.toString()).toBe("中国");
+		const result = await perl.eval(`
+			open my $a, '<', '/shared.txt' or die "open a: $!";
+			open my $b, '<', '/shared.txt' or die "open b: $!";
+			my $first = <$a>;
+			my $second = <$a>;
+			my $other = <$b>;
+			close $a;
+			my $rest = <$b>;
+			close $b;
+			open my $in, '<', '/shared.txt' or die "open in: $!";
+			open my $out, '>>', '/shared.txt' or die "open out: $!";
+			my $copied = 0;
+			while (my $line = <$in>) {
+				last if $copied++ >= 3;
+				print $out "copy:$line";
+			}
+			close $out;
+			close $in;
+			chomp($first, $second, $other, $rest);
+			print "$first,$second,$other,$rest,", -s '/shared.txt';
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			city?.dispose();
-			country?.dispose();
-			hash.dispose();
-			perl.dispose();
-		});
+		expect(output).toBe("line1,line2,line1,line2,51");
+		perl.dispose();
 	});
 
-	describe("Mixed Unicode and Multilingual", () => {
-		it("should handle mixed language text", async () => {
-			const perl = await ZeroPerl.create();
-			const mixedText = "Hello 안녕하세요 こんにちは 你好";
-			const val = perl.createString(mixedText);
+	it("should recycle closed descriptors and renumber them", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/a.txt", "aaa");
+		fs.addFile("/b.txt", "bbb");
+		const wasi = await createWasiHarness(fs);
+
+		const first = await wasi.open("/a.txt");
+		const second = await wasi.open("/a.txt");
+		expect(second).not.toBe(first);
+		expect(await wasi.call("fd_close", first)).toBe(0);
+		expect(await wasi.open("/b.txt")).toBe(first);
+
+		expect(await wasi.call("fd_renumber", second, first)).toBe(0);
+		expect(await wasi.call("fd_read", first, wasi.iov(3), 1, 16)).toBe(0);
+		expect(new TextDecoder().decode(wasi.bytes().slice(64, 67))).toBe("aaa");
+		expect(await wasi.call("fd_read", second, wasi.iov(3), 1, 16)).toBe(8);
+		expect(await wasi.call("fd_renumber", first, 99)).toBe(8);
+	});
 
-			expect(val.toString()).toBe(mixedText);
+	it("should always append when a file is opened in append mode", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/app.log", "first\n");
 
-			val.dispose();
-			perl.dispose();
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should handle emoji and extended Unicode", async () => {
-			const perl = await ZeroPerl.create();
-			const emojiText = "📷 Photo by 김철수 🌸";
-			const val = perl.createString(emojiText);
-
-			expect(val.toString()).toBe(emojiText);
+		const result = await perl.eval(`
+			use Fcntl qw(F_GETFL F_SETFL O_APPEND SEEK_SET);
+			open my $log, '>>', '/app.log' or die "open: $!";
+			$log->autoflush(1);
+			print $log "second\\n";
+			seek($log, 0, SEEK_SET) or die "seek: $!";
+			print $log "third\\n";
+			my $appending = (fcntl($log, F_GETFL, 0) & O_APPEND) ? 1 : 0;
+			fcntl($log, F_SETFL, 0) or die "fcntl: $!";
+			my $cleared = (fcntl($log, F_GETFL, 0) & O_APPEND) ? 1 : 0;
+			seek($log, 0, SEEK_SET) or die "seek: $!";
+			print $log "FIRST\\n";
+			close $log;
+			print "$appending,$cleared";
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			val.dispose();
-			perl.dispose();
-		});
+		expect(output).toBe("1,0");
+		const node = fs.lookup("/app.log");
+		expect(node?.type === "file" && new TextDecoder().decode(node.content as Uint8Array)).toBe(
+			"FIRST\nsecond\nthird\n",
+		);
+		perl.dispose();
+	});
+});
 
-		it("should handle Unicode in nested structures", async () => {
-			const perl = await ZeroPerl.create();
-			const nested = {
-				user: {
-					name: "田中太郎",
-					city: "東京",
-				},
-				tags: ["写真", "旅行", "食べ物"],
-			};
+describe("Host File System", () => {
+	function withHostDir(): string {
+		const dir = mkdtempSync(join(tmpdir(), "zeroperl-"));
+		hostDirs.push(dir);
+		return dir;
+	}
 
-			perl.setVariable("data", nested);
-			const retrieved = perl.getVariable("data");
+	const hostDirs: string[] = [];
+	afterEach(() => {
+		for (const dir of hostDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
 
-			expect(retrieved?.isRef()).toBe(true);
+	it("should read and write files in a host directory", async () => {
+		const dir = withHostDir();
+		writeFileSync(join(dir, "input.txt"), "from host\n");
 
-			retrieved?.dispose();
-			perl.dispose();
+		let output = "";
+		const perl = await ZeroPerl.create({
+			hostFileSystem: { fs: nodeFs, preopens: { "/work": dir } },
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should round-trip Unicode arrays", async () => {
-			const perl = await ZeroPerl.create();
-			const original = ["Hello", "안녕", "こんにちは", "你好", "🌍"];
-			const arr = perl.createArray(original);
-			const result = arr.project();
+		const result = await perl.eval(`
+			open my $in, '<', '/work/input.txt' or die "open: $!";
+			my $line = <$in>;
+			close $in;
+			mkdir '/work/out' or die "mkdir: $!";
+			open my $out, '>', '/work/out/result.txt' or die "open: $!";
+			print $out "got: $line";
+			close $out;
+			rename '/work/input.txt', '/work/moved.txt' or die "rename: $!";
+			opendir my $dh, '/work' or die "opendir: $!";
+			print join(',', grep { !/^\\./ } sort(readdir($dh)));
+			closedir $dh;
+			unlink '/work/moved.txt' or die "unlink: $!";
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			expect(result).toEqual(original);
+		expect(output).toBe("moved.txt,out");
+		expect(readFileSync(join(dir, "out/result.txt"), "utf8")).toBe("got: from host\n");
+		expect(existsSync(join(dir, "moved.txt"))).toBe(false);
+		perl.dispose();
+	});
 
-			arr.dispose();
-			perl.dispose();
+	it("should confine paths to their preopen", async () => {
+		const outside = withHostDir();
+		const dir = withHostDir();
+		writeFileSync(join(outside, "secret.txt"), "secret");
+		mkdirSync(join(dir, "sub"));
+		writeFileSync(join(dir, "sub/inside.txt"), "inside");
+		symlinkSync(outside, join(dir, "escape"));
+		symlinkSync("sub/inside.txt", join(dir, "alias"));
+
+		let output = "";
+		const perl = await ZeroPerl.create({
+			hostFileSystem: { fs: nodeFs, preopens: { "/work": dir } },
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should round-trip Unicode hashes", async () => {
-			const perl = await ZeroPerl.create();
-			const original = {
-				english: "Hello",
-				korean: "안녕하세요",
-				japanese: "こんにちは",
-				chinese: "你好",
-				emoji: "🎉",
-			};
-			const hash = perl.createHash(original);
-			const result = hash.project();
+		const result = await perl.eval(`
+			my @results;
+			for my $path ('/work/sub/../../secret.txt', '/work/escape/secret.txt', '/work/alias') {
+				if (open my $fh, '<', $path) {
+					push @results, scalar <$fh>;
+				} else {
+					push @results, "$!";
+				}
+			}
+			print join(',', @results);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			expect(result).toEqual(original);
+		expect(output).toBe("Capabilities insufficient,Capabilities insufficient,inside");
+		perl.dispose();
+	});
 
-			hash.dispose();
-			perl.dispose();
+	it("should not follow a link swapped in before a file is opened", async () => {
+		const outside = withHostDir();
+		const dir = withHostDir();
+		writeFileSync(join(outside, "secret.txt"), "secret");
+		mkdirSync(join(dir, "sub"));
+		writeFileSync(join(dir, "sub/secret.txt"), "inside");
+		writeFileSync(join(dir, "data.txt"), "inside");
+
+		// Replaces checked entries with links out of the root just before they are opened.
+		const racyFs: typeof nodeFs = {
+			...nodeFs,
+			openSync: ((path: string, flags: number, mode?: number) => {
+				if (path.endsWith("data.txt")) {
+					rmSync(path);
+					symlinkSync(join(outside, "secret.txt"), path);
+				} else if (path.endsWith("secret.txt")) {
+					rmSync(join(dir, "sub"), { recursive: true });
+					symlinkSync(outside, join(dir, "sub"));
+				}
+				return nodeFs.openSync(path, flags, mode);
+			}) as typeof nodeFs.openSync,
+		};
+
+		let output = "";
+		const perl = await ZeroPerl.create({
+			mounts: { "/work": new HostFileSystem(racyFs, dir) },
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
-	});
 
-	describe("Unicode in Perl Operations", () => {
-		it("should handle Unicode in eval code with 'use utf8' pragma", async () => {
-			const perl = await ZeroPerl.create();
-			const result = await perl.eval('use utf8; $greeting = "안녕하세요"');
-			expectSuccess(result);
+		const result = await perl.eval(`
+			my @results;
+			for my $path ('/work/data.txt', '/work/sub/secret.txt') {
+				push @results, open(my $fh, '>', $path) ? "opened" : "refused";
+			}
+			print join(',', @results);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			const greeting = perl.getVariable("greeting");
-			expect(greeting?.toString()).toBe("안녕하세요");
+		expect(output).toBe("refused,refused");
+		expect(readFileSync(join(outside, "secret.txt"), "utf8")).toBe("secret");
+		perl.dispose();
+	});
+});
 
-			greeting?.dispose();
-			perl.dispose();
-		});
+describe("Mounts", () => {
+	it("should combine memory and host file systems in one tree", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "zeroperl-"));
+		try {
+			const lib = new MemoryFileSystem();
+			lib.addFile("/Greeting.pm", "package Greeting; sub hello { 'hello from lib' } 1;\n");
+			lib.setReadonly("/");
+			const scratch = new MemoryFileSystem();
 
-		it("should handle Unicode in Perl string operations with 'use utf8' pragma", async () => {
 			let output = "";
 			const perl = await ZeroPerl.create({
+				mounts: {
+					"/lib": lib,
+					"/work": new HostFileSystem(nodeFs, dir),
+					"/tmp": scratch,
+				},
 				stdout: (data) => {
 					output += typeof data === "string" ? data : new TextDecoder().decode(data);
 				},
 			});
 
-			perl.setVariable("name", "김철수");
-
-			const result = await perl.eval('use utf8; $msg = "안녕하세요, $name!"; print $msg');
+			const result = await perl.eval(`
+				use lib '/lib';
+				use Greeting;
+				open my $out, '>', '/work/out.txt' or die "open: $!";
+				print $out Greeting::hello();
+				close $out;
+				open my $tmp, '>', '/tmp/scratch.txt' or die "open: $!";
+				print $tmp "scratch";
+				close $tmp;
+				my $locked = open(my $fh, '>', '/lib/Other.pm') ? "writable" : "$!";
+				my $moved = rename('/tmp/scratch.txt', '/work/scratch.txt') ? "moved" : "$!";
+				print "$locked|$moved";
+			`);
 			expectSuccess(result);
 			perl.flush();
 
-			expect(output).toBe("안녕하세요, 김철수!");
-
+			expect(output).toBe("Read-only file system|Cross-device link");
+			expect(readFileSync(join(dir, "out.txt"), "utf8")).toBe("hello from lib");
+			const node = scratch.lookup("/scratch.txt");
+			expect(node?.type === "file" && new TextDecoder().decode(node.content as Uint8Array)).toBe("scratch");
 			perl.dispose();
-		});
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
 
-		it("should handle Unicode passed via setVariable without pragma", async () => {
-			let output = "";
-			const perl = await ZeroPerl.create({
-				stdout: (data) => {
-					output += typeof data === "string" ? data : new TextDecoder().decode(data);
-				},
-			});
+	it("should show mount points in the directories above them", async () => {
+		const data = new MemoryFileSystem();
+		data.addFile("/value.txt", "42");
 
-			perl.setVariable("greeting", "안녕하세요");
-			perl.setVariable("name", "김철수");
+		let output = "";
+		const perl = await ZeroPerl.create({
+			mounts: { "/": new MemoryFileSystem(), "/mnt/data": data },
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-			const result = await perl.eval('print "$greeting, $name!"');
-			expectSuccess(result);
-			perl.flush();
+		const result = await perl.eval(`
+			opendir my $dh, '/mnt' or die "opendir: $!";
+			my @names = grep { !/^\\./ } sort(readdir($dh));
+			open my $fh, '<', '/mnt/data/value.txt' or die "open: $!";
+			print join(',', @names), '|', (-d '/mnt' ? 'dir' : 'missing'), '|', scalar <$fh>;
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			expect(output).toBe("안녕하세요, 김철수!");
+		expect(output).toBe("data|dir|42");
+		perl.dispose();
+	});
+});
 
-			perl.dispose();
+describe("Overlay File System", () => {
+	function createBase() {
+		const base = new MemoryFileSystem();
+		base.addFile("/data/config.txt", "original\n");
+		base.addFile("/data/remove.txt", "remove me\n");
+		base.addFile("/data/tree/leaf.txt", "leaf\n");
+		return base;
+	}
+
+	async function runIn(fileSystem: OverlayFileSystem, code: string): Promise<string> {
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
+		const result = await perl.eval(code);
+		expectSuccess(result);
+		perl.flush();
+		perl.dispose();
+		return output;
+	}
 
-		it("should handle Unicode in host functions with pragma", async () => {
-			const perl = await ZeroPerl.create();
+	it("should give each instance a private view of a shared base", async () => {
+		const base = createBase();
+
+		const changed = await runIn(
+			new OverlayFileSystem(base),
+			`
+			open my $out, '>>', '/data/config.txt' or die "open: $!";
+			print $out "changed\\n";
+			close $out;
+			unlink '/data/remove.txt' or die "unlink: $!";
+			open my $new, '>', '/data/new.txt' or die "open: $!";
+			close $new;
+			open my $in, '<', '/data/config.txt' or die "open: $!";
+			local $/;
+			opendir my $dh, '/data' or die "opendir: $!";
+			print join(',', grep { !/^\\./ } sort(readdir($dh))), '|', <$in>;
+		`,
+		);
+		expect(changed).toBe("config.txt,new.txt,tree|original\nchanged\n");
+
+		const fresh = await runIn(
+			new OverlayFileSystem(base),
+			`
+			open my $in, '<', '/data/config.txt' or die "open: $!";
+			local $/;
+			opendir my $dh, '/data' or die "opendir: $!";
+			print join(',', grep { !/^\\./ } sort(readdir($dh))), '|', <$in>;
+		`,
+		);
+		expect(fresh).toBe("config.txt,remove.txt,tree|original\n");
+
+		const node = base.lookup("/data/config.txt");
+		expect(node?.type === "file" && new TextDecoder().decode(node.content as Uint8Array)).toBe("original\n");
+	});
 
-			perl.registerFunction("greet", (name) => {
-				const n = name.toString();
-				return perl.createString(`안녕하세요, ${n}!`);
-			});
+	it("should copy directories up on rename and hide the entries of replaced ones", async () => {
+		const base = createBase();
+		const overlay = new OverlayFileSystem(base);
+
+		const output = await runIn(
+			overlay,
+			`
+			rename '/data/tree', '/data/moved' or die "rename: $!";
+			open my $in, '<', '/data/moved/leaf.txt' or die "open: $!";
+			my $leaf = <$in>;
+			close $in;
+			mkdir '/data/tree' or die "mkdir: $!";
+			opendir my $dh, '/data/tree' or die "opendir: $!";
+			my @recreated = grep { !/^\\./ } readdir($dh);
+			closedir $dh;
+			unlink '/data/moved/leaf.txt' or die "unlink: $!";
+			rmdir '/data/moved' or die "rmdir: $!";
+			chomp $leaf;
+			print $leaf, '|', scalar(@recreated), '|', (-e '/data/moved' ? 'exists' : 'gone');
+		`,
+		);
+
+		expect(output).toBe("leaf|0|gone");
+		expect(base.lookup("/data/tree/leaf.txt")).not.toBeNull();
+		expect(overlay.upper.lookup("/data/tree")?.type).toBe("dir");
+	});
 
-			const result = await perl.eval('use utf8; $result = greet("田中")');
-			expectSuccess(result);
+	it("should keep read-only files and directories of the base read-only", () => {
+		const base = createBase();
+		base.addFile("/lib/Foo.pm", "package Foo; 1;");
+		base.addFile("/data/tree/locked/keep.txt", "keep\n");
+		base.setReadonly("/lib");
+		base.setReadonly("/data/tree/locked");
+		base.setReadonly("/data/config.txt");
+		const overlay = new OverlayFileSystem(base);
+		const codeOf = (action: () => unknown) => {
+			try {
+				action();
+				return null;
+			} catch (error) {
+				return (error as FileSystemError).code;
+			}
+		};
 
-			const perlResult = perl.getVariable("result");
-			expect(perlResult?.toString()).toBe("안녕하세요, 田中!");
+		expect(codeOf(() => overlay.mkdir("/lib/evil"))).toBe("EROFS");
+		expect(codeOf(() => overlay.open("/lib/Bar.pm", { write: true, create: true }))).toBe("EROFS");
+		expect(codeOf(() => overlay.open("/lib/Foo.pm", { write: true }))).toBe("EROFS");
+		expect(codeOf(() => overlay.unlink("/lib/Foo.pm"))).toBe("EROFS");
+		expect(codeOf(() => overlay.rename("/lib/Foo.pm", "/Foo.pm"))).toBe("EROFS");
+		expect(codeOf(() => overlay.unlink("/data/config.txt"))).toBe("EACCES");
+		expect(overlay.stat("/lib/Foo.pm").readonly).toBe(true);
+		expect(overlay.readdir("/lib")).toEqual(["Foo.pm"]);
+		overlay.close(overlay.open("/lib/Foo.pm", { read: true }));
+
+		// Directories keep their flag when they are copied up with their parent.
+		overlay.rename("/data/tree", "/data/moved");
+		expect(overlay.upper.lookup("/data/moved/locked")?.readOnly).toBe(true);
+		expect(overlay.stat("/data/moved/locked").readonly).toBe(true);
+		expect(codeOf(() => overlay.unlink("/data/moved/locked/keep.txt"))).toBe("EROFS");
+		expect(codeOf(() => overlay.mkdir("/data/moved/locked/evil"))).toBe("EROFS");
+		expect(base.lookup("/data/tree/locked/keep.txt")).not.toBeNull();
+	});
+});
 
-			perlResult?.dispose();
-			perl.dispose();
+describe("Lazy Files", () => {
+	it("should load lazy files only when they are read", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const loaded: string[] = [];
+		const module = "package Used; sub name { 'used' } 1;\n";
+		fs.addLazyFile(
+			"/lib/Used.pm",
+			async () => {
+				loaded.push("Used");
+				return module;
+			},
+			{ size: module.length },
+		);
+		fs.addLazyFile("/lib/Unused.pm", () => {
+			loaded.push("Unused");
+			return "package Unused; 1;\n";
 		});
 
-		it("should handle Unicode in host functions via setVariable", async () => {
-			const perl = await ZeroPerl.create();
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
 
-			perl.registerFunction("greet", (name) => {
-				const n = name.toString();
-				return perl.createString(`안녕하세요, ${n}!`);
-			});
+		const result = await perl.eval(`
+			my $size = -s '/lib/Used.pm';
+			use lib '/lib';
+			require Used;
+			open my $fh, '<', '/lib/Used.pm' or die "open: $!";
+			my $first = <$fh>;
+			print $size, '|', Used::name(), '|', length($first);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			perl.setVariable("name_arg", "田中");
+		expect(output).toBe(`${module.length}|used|${module.length}`);
+		expect(loaded).toEqual(["Used"]);
+		perl.dispose();
+	});
 
-			const result = await perl.eval('$result = greet($name_arg)');
-			expectSuccess(result);
+	it("should report loader failures and apply writes made before loading", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addLazyFile("/broken.txt", () => Promise.reject(new Error("cache miss")));
+		let load: (content: string) => void = () => {};
+		fs.addLazyFile("/pending.txt", () => new Promise<string>((resolve) => (load = resolve)), { size: 6 });
+		fs.addLazyFile("/replaced.txt", () => "old");
+		const wasi = await createWasiHarness(fs);
+
+		const broken = await wasi.open("/broken.txt");
+		expect(await wasi.call("fd_read", broken, wasi.iov(8), 1, 16)).toBe(29);
+
+		const pending = await wasi.open("/pending.txt");
+		expect(await wasi.call("fd_write", pending, wasi.iov(new TextEncoder().encode("new")), 1, 16)).toBe(0);
+		expect(await wasi.call("fd_filestat_set_size", pending, 8n)).toBe(0);
+		expect(fs.stat("/pending.txt").size).toBe(8n);
+		load("loaded");
+		expect(await fs.readFile("/pending.txt", "utf8")).toBe("newded\0\0");
+
+		const replaced = await wasi.open("/replaced.txt", 8);
+		expect(await wasi.call("fd_write", replaced, wasi.iov(new TextEncoder().encode("new")), 1, 16)).toBe(0);
+		const node = fs.lookup("/replaced.txt");
+		expect(node?.type === "file" && new TextDecoder().decode(node.content as Uint8Array)).toBe("new");
+	});
 
-			const perlResult = perl.getVariable("result");
-			expect(perlResult?.toString()).toBe("안녕하세요, 田中!");
+	it("should append to lazy files before they are loaded", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addLazyFile("/lazy.txt", async () => {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			return "first\n";
+		});
 
-			perlResult?.dispose();
-			perl.dispose();
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should handle Unicode in Perl subroutine calls", async () => {
-			const perl = await ZeroPerl.create();
+		const result = await perl.eval(`
+			open my $log, '>>', '/lazy.txt' or die "open: $!";
+			print $log "second\\n";
+			close $log or die "close: $!";
+			open my $in, '<', '/lazy.txt' or die "reopen: $!";
+			print <$in>;
+			close $in;
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			const result = await perl.eval('sub echo { return $_[0]; }');
-			expectSuccess(result);
+		expect(output).toBe("first\nsecond\n");
+		perl.dispose();
+	});
+});
 
-			const arg = perl.createString("こんにちは世界");
-			const callResult = await perl.call("echo", [arg], "scalar");
+describe("Tar Archives", () => {
+	it("should round-trip long names, links and modification times", async () => {
+		const longDir = `/${"d".repeat(90)}/${"e".repeat(90)}`;
+		const source = new MemoryFileSystem();
+		source.addFile(`${longDir}/${"f".repeat(120)}.txt`, "deep");
+		source.addFile("/data/a.txt", "alpha", { readonly: true });
+		source.link("/data/a.txt", "/data/hard.txt");
+		source.symlink("a.txt", "/data/link.txt");
+		source.addLazyFile("/data/lazy.txt", async () => "loaded");
+		source.setTimes("/data/lazy.txt", 0n, 1_600_000_000_000_000_000n);
+
+		const fs = MemoryFileSystem.fromTar(await source.toTar());
+		const read = (path: string) => {
+			const node = fs.lookup(path);
+			return node?.type === "file" ? new TextDecoder().decode(node.content as Uint8Array) : null;
+		};
 
-			expect(callResult?.toString()).toBe("こんにちは世界");
+		expect(read(`${longDir}/${"f".repeat(120)}.txt`)).toBe("deep");
+		expect(read("/data/lazy.txt")).toBe("loaded");
+		expect(fs.stat("/data/lazy.txt").mtim).toBe(1_600_000_000_000_000_000n);
+		expect(fs.readlink("/data/link.txt")).toBe("a.txt");
+		expect(fs.stat("/data/hard.txt").nlink).toBe(2n);
+		expect(fs.stat("/data/hard.txt").ino).toBe(fs.stat("/data/a.txt").ino);
+		expect(() => fs.setTimes("/data/a.txt", 0n, 0n)).toThrow(FileSystemError);
 
-			arg.dispose();
-			callResult?.dispose();
-			perl.dispose();
-		});
+		const single = MemoryFileSystem.fromTar(await source.toTar("/data/a.txt"));
+		expect(single.stat("/a.txt").size).toBe(5n);
+	});
 
-		it("should corrupt Unicode in source code without 'use utf8' pragma", async () => {
-			const perl = await ZeroPerl.create();
-			const result = await perl.eval('$greeting = "안녕하세요"');
-			expectSuccess(result);
+	it("should run Perl over an archive and export its output", async () => {
+		const source = new MemoryFileSystem();
+		source.addFile("/bin/build.pl", `open my $fh, '>', '/out/result.txt' or die $!; print $fh "built";`);
+		source.mkdir("/out");
 
-			const greeting = perl.getVariable("greeting");
-			const retrieved = greeting?.toString();
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.mountTar("/project", await source.toTar());
+		const perl = await ZeroPerl.create({ fileSystem: fs });
+		const result = await perl.eval(`
+			open my $in, '<', '/project/bin/build.pl' or die $!;
+			my $code = do { local $/; <$in> };
+			$code =~ s{/out/}{/project/out/};
+			eval $code; die $@ if $@;
+		`);
+		expectSuccess(result);
+		perl.dispose();
 
-			expect(retrieved).not.toBe("안녕하세요");
-			expect(retrieved?.length).toBeGreaterThan(5);
+		const output = MemoryFileSystem.fromTar(await fs.toTar("/project/out"));
+		const node = output.lookup("/result.txt");
+		expect(node?.type === "file" && new TextDecoder().decode(node.content as Uint8Array)).toBe("built");
 
-			greeting?.dispose();
-			perl.dispose();
-		});
+		const corrupt = await source.toTar();
+		corrupt[148] = 0x39;
+		expect(() => MemoryFileSystem.fromTar(corrupt)).toThrow("Invalid tar archive");
 	});
 
-	describe("Unicode Byte Length Validation", () => {
-		it("should preserve correct byte length for Korean text", async () => {
-			const perl = await ZeroPerl.create();
-			const koreanText = "안녕하세요";
-			const expectedByteLength = new TextEncoder().encode(koreanText).length;
+	it("should reject pax sizes that are negative or not numbers", () => {
+		const encoder = new TextEncoder();
+		const block = (typeflag: string, size: number, data = "") => {
+			const blocks = new Uint8Array(512 + Math.ceil(data.length / 512) * 512);
+			blocks.set(encoder.encode("entry.txt"), 0);
+			blocks.set(encoder.encode(size.toString(8).padStart(11, "0")), 124);
+			blocks[156] = typeflag.charCodeAt(0);
+			blocks.fill(0x20, 148, 156);
+			const sum = blocks.subarray(0, 512).reduce((total, byte) => total + byte, 0);
+			blocks.set(encoder.encode(`${sum.toString(8).padStart(6, "0")}\0`), 148);
+			blocks.set(encoder.encode(data), 512);
+			return blocks;
+		};
+		const archive = (...blocks: Uint8Array[]) => {
+			const bytes = new Uint8Array(blocks.reduce((total, part) => total + part.byteLength, 0) + 1024);
+			let offset = 0;
+			for (const part of blocks) {
+				bytes.set(part, offset);
+				offset += part.byteLength;
+			}
+			return bytes;
+		};
 
-			const val = perl.createString(koreanText);
-			const retrieved = val.toString();
-			const actualByteLength = new TextEncoder().encode(retrieved).length;
+		// A negative global size used to move back to the same header forever.
+		const negative = archive(block("g", 13, "13 size=-512\n"), block("0", 0));
+		expect(() => MemoryFileSystem.fromTar(negative)).toThrow("Invalid tar archive");
+		const repeated = archive(block("x", 13, "13 size=-512\n"), block("0", 0));
+		expect(() => MemoryFileSystem.fromTar(repeated)).toThrow("Invalid tar archive");
 
-			expect(actualByteLength).toBe(expectedByteLength);
-			expect(retrieved.length).toBe(koreanText.length);
+		// A size that is not a number used to end the archive early without an error.
+		const notNumber = archive(block("x", 12, "12 size=abc\n"), block("0", 0), block("0", 5, "hello"));
+		expect(() => MemoryFileSystem.fromTar(notNumber)).toThrow("Invalid tar archive");
+	});
+});
 
-			val.dispose();
-			perl.dispose();
+describe("Zip Archives", () => {
+	// Greeting/ and a deflated Greeting/Hello.pm and stored README, all dated 2020-09-13 12:26:40
+	const archive = Uint8Array.from(
+		atob(
+			"UEsDBBQAAAAAAFRjLVEAAAAAAAAAAAAAAAAJAAAAR3JlZXRpbmcvUEsDBBQAAAAIAFRjLVH9uQMIMgAAADcAAAARAAAAR3JlZXRpbmcvSGVsbG8ucG0rSEzOTkxPVXAvSk0tycxLt7LySM3JybfmKi5NUsgAMRWqFdQhDHWFCgVjhVouQ2suAFBLAwQUAAAAAABUYy1R4pxTpQcAAAAHAAAABgAAAFJFQURNRXN0b3JlZApQSwECFAMUAAAAAABUYy1RAAAAAAAAAAAAAAAACQAAAAAAAAAAAAAAgAEAAAAAR3JlZXRpbmcvUEsBAhQDFAAAAAgAVGMtUf25AwgyAAAANwAAABEAAAAAAAAAAAAAAIABJwAAAEdyZWV0aW5nL0hlbGxvLnBtUEsBAhQDFAAAAAAAVGMtUeKcU6UHAAAABwAAAAYAAAAAAAAAAAAAAIABiAAAAFJFQURNRVBLBQYAAAAAAwADAKoAAACzAAAAAAA=",
+		),
+		(c) => c.charCodeAt(0),
+	);
+
+	it("should serve modules from a mounted zip archive", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.mountZip("/lib/perl5", archive);
+		expect(fs.lookup("/lib/perl5/Greeting/Hello.pm")).toHaveProperty("loader");
+
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should preserve correct byte length for emoji", async () => {
-			const perl = await ZeroPerl.create();
-			const emojiText = "🎉🌸📷";
-			const expectedByteLength = new TextEncoder().encode(emojiText).length;
+		const result = await perl.eval(`
+			use lib '/lib/perl5';
+			require Greeting::Hello;
+			opendir my $dh, '/lib/perl5' or die $!;
+			my @names = sort grep { !/^\\./ } readdir $dh;
+			my $written = open(my $fh, '>', '/lib/perl5/README') ? 'yes' : $!;
+			print join('|', Greeting::Hello::hello(), -s '/lib/perl5/README', (stat '/lib/perl5/README')[9], "@names", $written);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			const val = perl.createString(emojiText);
-			const retrieved = val.toString();
-			const actualByteLength = new TextEncoder().encode(retrieved).length;
+		const mtime = new Date(2020, 8, 13, 12, 26, 40).getTime() / 1000;
+		expect(output).toBe(`hello hello hello |7|${mtime}|Greeting README|Read-only file system`);
+		perl.dispose();
+	});
 
-			expect(actualByteLength).toBe(expectedByteLength);
+	it("should reject malformed archives and report corrupt entries", async () => {
+		expect(() => new MemoryFileSystem().mountZip("/lib", new Uint8Array(64))).toThrow("Invalid zip archive");
 
-			val.dispose();
-			perl.dispose();
-		});
+		const corrupt = archive.slice();
+		// Inside the deflated data of Greeting/Hello.pm
+		corrupt[100] = (corrupt[100] as number) ^ 0xff;
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.mountZip("/lib", corrupt);
+		const wasi = await createWasiHarness(fs);
+
+		const fd = await wasi.open("/lib/Greeting/Hello.pm", 0, 2n);
+		expect(await wasi.call("fd_read", fd, wasi.iov(64), 1, 16)).toBe(29);
 	});
 
-	describe("Unicode Edge Cases", () => {
-		it("should handle very long Unicode text", async () => {
-			const perl = await ZeroPerl.create();
-			const longText = "안녕하세요".repeat(100);
+	it("should stop inflating entries that grow beyond their recorded size", async () => {
+		const name = new TextEncoder().encode("bomb.txt");
+		const zeros = new Blob([new Uint8Array(1 << 20)]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+		const deflated = new Uint8Array(await new Response(zeros).arrayBuffer());
+
+		// One deflated entry that claims to hold 16 bytes, dated 1980-01-01.
+		const bytes = new Uint8Array(30 + 46 + 22 + 2 * name.byteLength + deflated.byteLength);
+		const view = new DataView(bytes.buffer);
+		const central = 30 + name.byteLength + deflated.byteLength;
+		const end = central + 46 + name.byteLength;
+		view.setUint32(0, 0x04034b50, true);
+		view.setUint16(8, 8, true);
+		view.setUint16(26, name.byteLength, true);
+		bytes.set(name, 30);
+		bytes.set(deflated, 30 + name.byteLength);
+		view.setUint32(central, 0x02014b50, true);
+		view.setUint16(central + 10, 8, true);
+		view.setUint16(central + 14, 0x21, true);
+		view.setUint32(central + 20, deflated.byteLength, true);
+		view.setUint32(central + 24, 16, true);
+		view.setUint16(central + 28, name.byteLength, true);
+		bytes.set(name, central + 46);
+		view.setUint32(end, 0x06054b50, true);
+		view.setUint16(end + 8, 1, true);
+		view.setUint16(end + 10, 1, true);
+		view.setUint32(end + 12, end - central, true);
+		view.setUint32(end + 16, central, true);
 
-			const val = perl.createString(longText);
-			const retrieved = val.toString();
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.mountZip("/data", bytes);
+		expect(fs.stat("/data/bomb.txt").size).toBe(16n);
+		await expect(fs.readFile("/data/bomb.txt")).rejects.toThrow("is corrupt");
+	});
+});
 
-			expect(retrieved).toBe(longText);
-			expect(retrieved.length).toBe(500);
+describe("File API", () => {
+	it("should read back and manage files written by Perl", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const perl = await ZeroPerl.create({ fileSystem: fs });
+		const result = await perl.eval(`
+			mkdir '/out'; mkdir '/out/csv';
+			for my $name ('a.txt', 'b.txt', 'csv/c.csv') {
+				open my $fh, '>', "/out/$name" or die $!;
+				print $fh "data $name\\n";
+				close $fh;
+			}
+			symlink 'a.txt', '/out/link.txt' or die $!;
+		`);
+		expectSuccess(result);
+		perl.dispose();
 
-			val.dispose();
-			perl.dispose();
+		expect(await fs.readFile("/out/link.txt", "utf8")).toBe("data a.txt\n");
+		expect(await fs.readFile("/out/csv/c.csv")).toEqual(new TextEncoder().encode("data csv/c.csv\n"));
+		expect(fs.exists("/out/b.txt")).toBe(true);
+		expect(fs.stat("/out/link.txt").type).toBe("symlink");
+		const info = fs.stat("/out/link.txt", { followSymlinks: true });
+		expect([info.type, info.size, info.readonly]).toEqual(["file", 11n, false]);
+		expect(info.mtime).toBeInstanceOf(Date);
+
+		expect(fs.readdir("/out", { recursive: true }).sort()).toEqual([
+			"a.txt",
+			"b.txt",
+			"csv",
+			"csv/c.csv",
+			"link.txt",
+		]);
+		expect(fs.glob("/out/**/*.{txt,csv}").sort()).toEqual([
+			"/out/a.txt",
+			"/out/b.txt",
+			"/out/csv/c.csv",
+			"/out/link.txt",
+		]);
+		expect(fs.glob("out/?.txt").sort()).toEqual(["/out/a.txt", "/out/b.txt"]);
+
+		fs.copy("/out", "/backup");
+		fs.writeFile("/out/link.txt", "replaced\n");
+		await fs.appendFile("/out/a.txt", "more\n");
+		fs.rename("/out/b.txt", "/out/renamed.txt");
+		fs.rm("/out/csv", { recursive: true });
+
+		expect(await fs.readFile("/out/a.txt", "utf8")).toBe("replaced\nmore\n");
+		expect(await fs.readFile("/backup/a.txt", "utf8")).toBe("data a.txt\n");
+		expect(fs.readlink("/backup/link.txt")).toBe("a.txt");
+		expect(fs.readdir("/out").sort()).toEqual(["a.txt", "link.txt", "renamed.txt"]);
+
+		const bytes = new TextEncoder().encode("hello");
+		fs.writeFile("/out/bytes.txt", bytes);
+		bytes[0] = 0x4a;
+		expect(await fs.readFile("/out/bytes.txt", "utf8")).toBe("hello");
+	});
+
+	it("should throw errors carrying POSIX codes", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/locked.txt", "locked", { readonly: true });
+		fs.mkdir("/dir");
+		fs.addFile("/dir/file.txt", "file");
+
+		const codeOf = async (operation: () => unknown) => {
+			try {
+				await operation();
+			} catch (error) {
+				return error instanceof FileSystemError ? error.code : String(error);
+			}
+			return null;
+		};
+
+		expect(await codeOf(() => fs.readFile("/missing.txt"))).toBe("ENOENT");
+		expect(await codeOf(() => fs.readFile("/dir"))).toBe("EISDIR");
+		expect(await codeOf(() => fs.writeFile("/locked.txt", "new"))).toBe("EACCES");
+		expect(await codeOf(() => fs.rm("/dir"))).toBe("EISDIR");
+		expect(await codeOf(() => fs.copy("/dir", "/dir/nested"))).toBe("EINVAL");
+		expect(await codeOf(() => fs.rm("/missing.txt", { force: true }))).toBeNull();
+
+		const written: string[] = [];
+		fs.addDynamicFile("/dynamic.txt", {
+			read: () => "generated",
+			write: (data) => void written.push(new TextDecoder().decode(data)),
 		});
+		expect(await codeOf(() => fs.writeFile("/dynamic.txt", "new"))).toBe("EINVAL");
+		expect(await codeOf(() => fs.appendFile("/dynamic.txt", "more"))).toBe("EINVAL");
+		expect(await fs.readFile("/dynamic.txt", "utf8")).toBe("generated");
+		expect(written).toEqual([]);
+
+		fs.setReadonly("/dir");
+		expect(await codeOf(() => fs.appendFile("/dir/file.txt", "more"))).toBe("EROFS");
+		expect(await codeOf(() => fs.rm("/dir", { recursive: true }))).toBe("EROFS");
+		expect(fs.stat("/dir/file.txt").readonly).toBe(true);
+		expect(new FileSystemError(76, "denied").code).toBe("ENOTCAPABLE");
+	});
+});
 
-		it("should handle Unicode with null bytes", async () => {
-			const perl = await ZeroPerl.create();
-			const text = "안녕\0하세요";
+describe("Watching", () => {
+	it("should report changes made by Perl, one modify per close", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.mkdir("/out");
+		fs.mkdir("/other");
+		const events: { type: string; path: string; oldPath?: string }[] = [];
+		const unwatch = fs.watch("/out", (event) => events.push(event));
 
-			const val = perl.createString(text);
-			const retrieved = val.toString();
+		const perl = await ZeroPerl.create({ fileSystem: fs });
+		const result = await perl.eval(`
+			open my $fh, '>', '/out/report.txt' or die $!;
+			print $fh "line $_\\n" for 1 .. 5000;
+			close $fh;
+			rename '/out/report.txt', '/out/final.txt' or die $!;
+			mkdir '/out/sub' or die $!;
+			open my $other, '>', '/other/ignored.txt' or die $!;
+			close $other;
+			unlink '/out/final.txt' or die $!;
+		`);
+		expectSuccess(result);
 
-			expect(retrieved).toBe(text);
+		expect(events).toEqual([
+			{ type: "create", path: "/out/report.txt" },
+			{ type: "modify", path: "/out/report.txt" },
+			{ type: "rename", path: "/out/final.txt", oldPath: "/out/report.txt" },
+			{ type: "create", path: "/out/sub" },
+			{ type: "delete", path: "/out/final.txt" },
+		]);
+
+		unwatch();
+		expectSuccess(await perl.eval(`rmdir '/out/sub' or die $!;`));
+		expect(events).toHaveLength(5);
+		perl.dispose();
+	});
 
-			val.dispose();
-			perl.dispose();
-		});
+	it("should report truncation and JavaScript writes, and ignore unchanged files", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/data.txt", "data");
+		const events: string[] = [];
+		fs.watch("/", (event) => events.push(`${event.type} ${event.path}`));
+		const wasi = await createWasiHarness(fs);
 
-		it("should handle Unicode newlines and whitespace", async () => {
-			const perl = await ZeroPerl.create();
-			const text = "こんにちは\n世界\t日本";
+		await wasi.call("fd_close", await wasi.open("/data.txt"));
+		expect(events).toEqual([]);
 
-			const val = perl.createString(text);
-			const retrieved = val.toString();
+		const truncated = await wasi.open("/data.txt", 8);
+		expect(events).toEqual([]);
+		await wasi.call("fd_close", truncated);
+		expect(events).toEqual(["modify /data.txt"]);
 
-			expect(retrieved).toBe(text);
+		fs.writeFile("/notes/today.txt", "notes");
+		expect(events).toEqual(["modify /data.txt", "create /notes", "create /notes/today.txt", "modify /notes/today.txt"]);
+	});
 
-			val.dispose();
-			perl.dispose();
+	it("should log failing listeners and follow files moved while open", async () => {
+		const logged: unknown[] = [];
+		const consoleError = console.error;
+		console.error = (error: unknown) => logged.push(error);
+		try {
+			for (const mount of [false, true]) {
+				const fs = new MemoryFileSystem({ "/": "" });
+				fs.mkdir("/work");
+				const events: string[] = [];
+				fs.watch("/", () => {
+					throw new Error("listener failed");
+				});
+				fs.watch("/", (event) => events.push(`${event.type} ${event.oldPath ? `${event.oldPath} -> ` : ""}${event.path}`));
+
+				const perl = await ZeroPerl.create(mount ? { mounts: { "/": fs } } : { fileSystem: fs });
+				const result = await perl.eval(`
+					open my $fh, '>', '/work/report.txt' or die $!;
+					print $fh "report";
+					rename '/work', '/done' or die $!;
+					close $fh or die $!;
+				`);
+				expectSuccess(result);
+
+				expect(events).toEqual(["create /work/report.txt", "rename /work -> /done", "modify /done/report.txt"]);
+				perl.dispose();
+			}
+		} finally {
+			console.error = consoleError;
+		}
+		expect(logged).toHaveLength(6);
+	});
+});
+
+describe("Limits", () => {
+	it("should fail Perl writes beyond the limits instead of growing without bound", async () => {
+		const fs = new MemoryFileSystem({ "/": "" }, { limits: { maxBytes: 64 * 1024, maxFileSize: 16 * 1024, maxNodes: 10 } });
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should detect corruption via replacement characters", async () => {
-			const perl = await ZeroPerl.create();
-			const koreanText = "안녕하세요";
+		const result = await perl.eval(`
+			sub fill {
+				my ($path) = @_;
+				open my $fh, '>', $path or return "open: $!";
+				for (1 .. 1000) {
+					print $fh ('x' x 1000) or return "print: $!";
+				}
+				close $fh or return "close: $!";
+				return 'done';
+			}
+			my @results = (fill('/big.txt'));
+			push @results, fill("/part$_.txt") for 1 .. 4;
+			my $dirs = 0;
+			$dirs++ while mkdir "/dir$dirs";
+			print join('|', @results, $dirs, $!);
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			perl.setVariable("text", koreanText);
-			const retrieved = perl.getVariable("text");
-			const result = retrieved?.toString();
+		const [big, ...rest] = output.split("|");
+		expect(big).toMatch(/^(print|close): File too large$/);
+		expect(rest.slice(0, 4).some((part) => /No space left on device/.test(part))).toBe(true);
+		expect(rest[5]).toMatch(/quota/i);
 
-			expect(result).not.toContain("�");
-			expect(result).not.toContain("HUX8");
-			expect(result).toMatch(/[\u3131-\uD79D]/);
+		const usage = fs.usage();
+		expect(usage.bytes).toBeLessThanOrEqual(64 * 1024);
+		expect(usage.nodes).toBe(10);
+		expect(usage.limits.maxNodes).toBe(10);
+		perl.dispose();
+	});
 
-			retrieved?.dispose();
-			perl.dispose();
+	it("should apply the limits to the file API and raw syscalls", async () => {
+		const fs = new MemoryFileSystem({ "/": "" }, { limits: { maxFileSize: 8 } });
+		fs.writeFile("/small.txt", "12345678");
+		expect(() => fs.writeFile("/small.txt", "123456789")).toThrow("File size limit exceeded");
+		await expect(fs.appendFile("/small.txt", "9")).rejects.toMatchObject({ code: "EFBIG" });
+
+		const wasi = await createWasiHarness(fs);
+		const fd = await wasi.open("/small.txt");
+		expect(await wasi.call("fd_pwrite", fd, wasi.iov(new TextEncoder().encode("abc")), 1, 6n, 16)).toBe(22);
+		expect(await wasi.call("fd_allocate", fd, 0n, 9n)).toBe(22);
+		expect(await wasi.call("fd_filestat_set_size", fd, 4n)).toBe(0);
+
+		fs.limits = {};
+		expect(await wasi.call("fd_filestat_set_size", fd, 1024n)).toBe(0);
+		expect(fs.usage().bytes).toBe(1024);
+	});
+
+	it("should count removed files until they are closed", async () => {
+		const fs = new MemoryFileSystem({ "/": "" }, { limits: { maxBytes: 100_000 } });
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
-		it("should handle combining characters", async () => {
-			const perl = await ZeroPerl.create();
-			const text = "가나다라마";
+		let result = await perl.eval(`
+			open our $fh, '>', '/scratch.bin' or die "open: $!";
+			unlink '/scratch.bin' or die "unlink: $!";
+			select((select($fh), $| = 1)[0]);
+			my $written = 0;
+			for (1 .. 2000) {
+				print $fh ('x' x 1000) or last;
+				$written += 1000;
+			}
+			print "$written|$!";
+		`);
+		expectSuccess(result);
+		perl.flush();
 
-			const val = perl.createString(text);
-			const retrieved = val.toString();
+		const [written, error] = output.split("|");
+		expect(Number(written)).toBeLessThanOrEqual(100_000);
+		expect(error).toMatch(/No space left on device/);
+		expect(fs.usage().bytes).toBe(Number(written));
+		expect(fs.usage().nodes).toBe(2);
 
-			expect(retrieved).toBe(text);
+		result = await perl.eval("close our $fh");
+		expectSuccess(result);
+		expect(fs.usage()).toMatchObject({ bytes: 0, nodes: 1 });
+		perl.dispose();
+	});
+});
 
-			val.dispose();
-			perl.dispose();
-		});
+describe("Path Resolution", () => {
+	it("should resolve dot components and repeated slashes to the same file", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.writeFile("/dir/a.txt", "content");
+		const wasi = await createWasiHarness(fs);
+
+		const inodes: bigint[] = [];
+		for (const path of ["dir/a.txt", "./dir/a.txt", "dir//a.txt", "dir/x/../a.txt", "dir/./a.txt/"]) {
+			const fd = await wasi.open(path);
+			expect(await wasi.call("fd_filestat_get", fd, 32)).toBe(0);
+			inodes.push(wasi.u64(40));
+		}
+		expect(new Set(inodes).size).toBe(1);
+
+		// Descriptors keep the removed file rather than the new one at the same path.
+		const path = new TextEncoder().encode("./dir//a.txt");
+		wasi.bytes().set(path, 1024);
+		expect(await wasi.call("path_unlink_file", 3, 1024, path.byteLength)).toBe(0);
+		fs.writeFile("/dir/a.txt", "new");
+		expect(await wasi.call("fd_filestat_get", 4, 32)).toBe(0);
+		expect(wasi.u64(32 + 32)).toBe(7n);
+	});
+
+	it("should not let paths or symbolic links leave the preopen", async () => {
+		const fs = new MemoryFileSystem({ "/sandbox": "" });
+		fs.writeFile("/secret.txt", "secret");
+		fs.writeFile("/sandbox/sub/a.txt", "inside");
+		fs.symlink("/secret.txt", "/sandbox/out");
+		fs.symlink("/sandbox/sub/a.txt", "/sandbox/in");
+		const wasi = await createWasiHarness(fs);
+
+		const openErrno = async (dirfd: number, path: string) => {
+			const encoded = new TextEncoder().encode(path);
+			wasi.bytes().set(encoded, 1024);
+			const rights = (1n << 29n) - 1n;
+			return await wasi.call("path_open", dirfd, 1, 1024, encoded.byteLength, 0, rights, rights, 0, 16);
+		};
+		expect(await openErrno(3, "../secret.txt")).toBe(76);
+		expect(await openErrno(3, "sub/../../secret.txt")).toBe(76);
+		expect(await openErrno(3, "out")).toBe(76);
+		expect(await openErrno(3, "in")).toBe(0);
+		expect(await openErrno(3, "sub/../sub/a.txt")).toBe(0);
+
+		// Descriptors opened below the preopen may go up to it, but no further.
+		const sub = await wasi.open("sub", 2);
+		expect(await openErrno(sub, "../sub/a.txt")).toBe(0);
+		expect(await openErrno(sub, "../../secret.txt")).toBe(76);
 	});
 });
 
-describe("Perl Build Configuration", () => {
-	it("should have consistent integer type sizes between runtime and config", async () => {
-		const perl = await ZeroPerl.create();
+describe("Persistence", () => {
+	class FakeAdapter implements PersistenceAdapter {
+		nodes = new Map<string, PersistedNode>();
+		get(path: string) {
+			return this.nodes.get(path);
+		}
+		put(path: string, node: PersistedNode) {
+			this.nodes.set(path, node);
+		}
+		delete(path: string) {
+			this.nodes.delete(path);
+		}
+		list() {
+			return [...this.nodes.keys()];
+		}
+	}
+
+	it("should save what Perl writes and restore it in a new file system", async () => {
+		const adapter = new FakeAdapter();
+		const fs = new MemoryFileSystem({ "/": "" });
+		await fs.persist(adapter);
 
+		const perl = await ZeroPerl.create({ fileSystem: fs });
 		const result = await perl.eval(`
-			use Config;
-			my @errors;
-			
-			my $iv_pack = length(pack("j", 0));
-			my $uv_pack = length(pack("J", 0));
-			my $ptr_pack = length(pack("P", 0));
-			my $long_pack = length(pack("l!", 0));
-			my $longlong_pack = length(pack("q", 0));
-			
-			push @errors, "IV: pack=$iv_pack config=$Config{ivsize}" if $iv_pack != $Config{ivsize};
-			push @errors, "UV: pack=$uv_pack config=$Config{uvsize}" if $uv_pack != $Config{uvsize};
-			push @errors, "Pointer: pack=$ptr_pack config=$Config{ptrsize}" if $ptr_pack != $Config{ptrsize};
-			push @errors, "long: pack=$long_pack config=$Config{longsize}" if $long_pack != $Config{longsize};
-			push @errors, "long long: pack=$longlong_pack config=$Config{longlongsize}" if $longlong_pack != $Config{longlongsize};
-			
-			die "Type size mismatches: " . join(", ", @errors) if @errors;
+			mkdir '/project' or die "mkdir: $!";
+			open my $fh, '>', '/project/main.pl' or die "open: $!";
+			print $fh 'print "restored\\n";';
+			close $fh or die "close: $!";
+			mkdir '/project/tmp' or die "mkdir: $!";
+			rmdir '/project/tmp' or die "rmdir: $!";
 		`);
 		expectSuccess(result);
-
 		perl.dispose();
-	});
-
-	it("should have correct WASM32 type sizes", async () => {
+		await fs.flush();
+		expect(adapter.list().sort()).toEqual(["/project", "/project/main.pl"]);
+
+		// Writes through a descriptor that is still open are saved on fsync.
+		const wasi = await createWasiHarness(fs);
+		const fd = await wasi.open("project/log.txt", 1);
+		expect(await wasi.call("fd_write", fd, wasi.iov(new TextEncoder().encode("synced")), 1, 16)).toBe(0);
+		expect(await wasi.call("fd_sync", fd)).toBe(0);
+		await fs.flush();
+		expect(new TextDecoder().decode(adapter.get("/project/log.txt")?.content)).toBe("synced");
+
+		const restored = new MemoryFileSystem({ "/": "" });
+		await restored.persist(adapter);
 		let output = "";
-		const perl = await ZeroPerl.create({
+		const perl2 = await ZeroPerl.create({
+			fileSystem: restored,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
+		expectSuccess(await perl2.eval(`do '/project/main.pl' or die "do: $@ $!";`));
+		perl2.flush();
+		expect(output).toBe("restored\n");
+		perl2.dispose();
+	});
+
+	it("should write through to snapshot and host directory adapters", async () => {
+		const snapshot = new SnapshotAdapter();
+		const fs = new MemoryFileSystem({ "/": "" });
+		await fs.persist(snapshot, { flush: "write-through" });
+		fs.writeFile("/notes/today.txt", "persisted");
+		fs.symlink("today.txt", "/notes/latest");
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(snapshot.list().sort()).toEqual(["/notes", "/notes/latest", "/notes/today.txt"]);
+
+		for (const copy of [new SnapshotAdapter(snapshot.toJSON()), new SnapshotAdapter(snapshot.toBytes())]) {
+			const restored = new MemoryFileSystem({ "/": "" });
+			await restored.persist(copy);
+			expect(await restored.readFile("/notes/latest", "utf8")).toBe("persisted");
+		}
+
+		// Restored files get content of their own, so writes in place leave the saved nodes alone.
+		const restored = new MemoryFileSystem({ "/": "" });
+		await restored.persist(snapshot);
+		const wasi = await createWasiHarness(restored);
+		const fd = await wasi.open("/notes/today.txt");
+		expect(await wasi.call("fd_write", fd, wasi.iov(new TextEncoder().encode("P")), 1, 16)).toBe(0);
+		expect(await restored.readFile("/notes/today.txt", "utf8")).toBe("Persisted");
+		expect(new TextDecoder().decode(snapshot.get("/notes/today.txt")?.content)).toBe("persisted");
+
+		const dir = mkdtempSync(join(tmpdir(), "zeroperl-"));
+		try {
+			const host = new MemoryFileSystem({ "/": "" });
+			await host.persist(new NodeDirectoryAdapter(nodeFs, join(dir, "store")), { flush: "write-through" });
+			host.writeFile("/a/b.txt", "on disk");
+			await host.flush();
+			expect(readFileSync(join(dir, "store", "a", "b.txt"), "utf8")).toBe("on disk");
+
+			host.rm("/a", { recursive: true });
+			await host.flush();
+			expect(existsSync(join(dir, "store", "a"))).toBe(false);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("should keep changes of failed background saves for the next flush", async () => {
+		const adapter = new FakeAdapter();
+		let broken = true;
+		adapter.put = (path: string, node: PersistedNode) => {
+			if (broken) throw new Error("storage unavailable");
+			adapter.nodes.set(path, node);
+		};
+		const fs = new MemoryFileSystem({ "/": "" });
+		await fs.persist(adapter, { flush: "write-through" });
+
+		fs.writeFile("/draft.txt", "draft");
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(adapter.list()).toEqual([]);
+
+		broken = false;
+		await expect(fs.flush()).rejects.toThrow("storage unavailable");
+		expect(adapter.list()).toEqual([]);
+		await fs.flush();
+		expect(adapter.list()).toEqual(["/draft.txt"]);
+	});
+});
+
+describe("Performance", () => {
+	it("should append to a file line by line in linear time", async () => {
+		// Appends copy the file only when its buffer doubles, instead of on every write.
+		const buffersOf = (fs: MemoryFileSystem, path: string, buffers: Set<ArrayBufferLike>) => {
+			const node = fs.lookup(path);
+			if (node?.type === "file" && node.content instanceof Uint8Array) buffers.add(node.content.buffer);
+		};
 
+		const fs = new MemoryFileSystem({ "/": "" });
+		const perl = await ZeroPerl.create({ fileSystem: fs });
+		const perlBuffers = new Set<ArrayBufferLike>();
+		perl.registerFunction("observe", () => {
+			buffersOf(fs, "/report.txt", perlBuffers);
+			return perl.createInt(0);
+		});
 		const result = await perl.eval(`
-			use Config;
-			print "$Config{ptrsize},$Config{longsize},$Config{longlongsize},$Config{ivsize},$Config{lseeksize}";
+			open my $fh, '>', '/report.txt' or die "open: $!";
+			$fh->autoflush(1);
+			for (1 .. 20_000) {
+				print $fh ('x' x 99) . "\n";
+				observe();
+			}
+			close $fh or die "close: $!";
 		`);
 		expectSuccess(result);
-		perl.flush();
-
-		const [ptrsize, longsize, longlongsize, ivsize, lseeksize] = output.split(",").map(Number);
+		perl.dispose();
+		expect(fs.stat("/report.txt").size).toBe(2_000_000n);
+		expect(perlBuffers.size).toBeLessThanOrEqual(16);
+
+		// 20,000 writes of 1 KiB, which took minutes when every append copied the file.
+		const wasi = await createWasiHarness(fs);
+		const fd = await wasi.open("raw.bin", 1);
+		const line = new Uint8Array(1024).fill(0x61);
+		wasi.iov(line);
+		const errnos = new Set<number>();
+		const rawBuffers = new Set<ArrayBufferLike>();
+		for (let i = 0; i < 20_000; i++) {
+			errnos.add(wasi.call("fd_write", fd, 0, 1, 16) as number);
+			buffersOf(fs, "/raw.bin", rawBuffers);
+		}
+		expect([...errnos]).toEqual([0]);
+		expect(fs.stat("/raw.bin").size).toBe(20_480_000n);
+		expect(rawBuffers.size).toBeLessThanOrEqual(20);
+	});
 
-		expect(ptrsize).toBe(4);
-		expect(longsize).toBe(4);
-		expect(longlongsize).toBe(8);
-		expect(ivsize).toBe(8);
-		expect(lseeksize).toBe(8);
+	it("should serve small reads of Blob content from the read-ahead cache", async () => {
+		const bytes = new Uint8Array(1024 * 1024).map((_, i) => i % 251);
+		let slices = 0;
+		class CountingBlob extends Blob {
+			override slice(start?: number, end?: number, contentType?: string): Blob {
+				slices++;
+				return super.slice(start, end, contentType);
+			}
+		}
+		const fs = new MemoryFileSystem({ "/": "" });
+		fs.addFile("/data.bin", new CountingBlob([bytes]));
+
+		const wasi = await createWasiHarness(fs);
+		const fd = await wasi.open("data.bin", 0, 2n);
+		const read = new Uint8Array(bytes.byteLength);
+		const errnos = new Set<number>();
+		let total = 0;
+		for (;;) {
+			errnos.add(await wasi.call("fd_read", fd, wasi.iov(100), 1, 16));
+			const count = wasi.u32(16);
+			if (count === 0) break;
+			read.set(wasi.bytes().subarray(64, 64 + count), total);
+			total += count;
+		}
 
-		perl.dispose();
+		expect([...errnos]).toEqual([0]);
+		expect(total).toBe(bytes.byteLength);
+		expect(read).toEqual(bytes);
+		// One slice per 64 KiB instead of one per 100-byte read.
+		expect(slices).toBeLessThanOrEqual(17);
 	});
+});
 
-	it("should have 64-bit integer support for large files", async () => {
+describe("Devices", () => {
+	it("should provide zero, random and standard stream devices", async () => {
 		let output = "";
+		let errors = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: new MemoryFileSystem({ "/": "" }),
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
+			stderr: (data) => {
+				errors += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
 		});
 
 		const result = await perl.eval(`
-			use Config;
-			my $ok = $Config{ivsize} >= $Config{lseeksize} ? 1 : 0;
-			print "$ok,$Config{ivsize},$Config{lseeksize}";
+			open my $zero, '<', '/dev/zero' or die "zero: $!";
+			sysread($zero, my $zeros, 16) == 16 or die "read zero: $!";
+			open my $random, '<', '/dev/urandom' or die "urandom: $!";
+			sysread($random, my $bytes, 4096) == 4096 or die "read urandom: $!";
+			my %seen = map { $_ => 1 } split //, $bytes;
+			open my $out, '>', '/dev/stdout' or die "stdout: $!";
+			syswrite $out, join('|', $zeros eq "\\0" x 16 ? 'zeros' : 'nonzero', scalar(keys %seen) > 200 ? 'random' : 'constant');
+			close $out;
+			open my $err, '>', '/dev/stderr' or die "stderr: $!";
+			syswrite $err, 'to stderr';
+			print -c '/dev/tty' ? 'tty' : 'no tty';
 		`);
 		expectSuccess(result);
 		perl.flush();
 
-		const [ok, ivsize, lseeksize] = output.split(",").map(Number);
-
-		expect(ok).toBe(1);
-		expect(ivsize).toBeGreaterThanOrEqual(lseeksize);
-
+		expect(output).toBe("zeros|randomtty");
+		expect(errors).toBe("to stderr");
 		perl.dispose();
 	});
 
-	it("should use long long for 64-bit types", async () => {
+	it("should read and write devices added with addDevice", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const lines = ["first\n", "second\n"];
+		const audit: string[] = [];
+		fs.addDevice("/dev/feed", { read: () => lines.shift() ?? "" });
+		fs.addDevice("/dev/audit", { write: (data) => audit.push(String(data)) });
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
 		const result = await perl.eval(`
-			use Config;
-			print "$Config{ivtype}|$Config{uvtype}|$Config{i64type}|$Config{u64type}";
+			open my $feed, '<', '/dev/feed' or die "feed: $!";
+			my @lines = <$feed>;
+			chomp @lines;
+			open my $audit, '>', '/dev/audit' or die "audit: $!";
+			syswrite $audit, "read @lines";
+			open my $back, '>', '/dev/feed' or die "feed: $!";
+			print join('|', defined syswrite($back, 'x') ? 'written' : $!, scalar @lines);
 		`);
 		expectSuccess(result);
 		perl.flush();
 
-		const [ivtype, uvtype, i64type, u64type] = output.split("|");
-
-		expect(ivtype).toBe("long long");
-		expect(uvtype).toBe("unsigned long long");
-		expect(i64type).toBe("long long");
-		expect(u64type).toBe("unsigned long long");
-
+		expect(audit).toEqual(["read first second"]);
+		expect(output).toBe("Bad file descriptor|2");
+		expect(fs.stat("/dev/audit").type).toBe("device");
 		perl.dispose();
 	});
 });
 
-describe("Perl I/O Operations", () => {
-	it("should handle binary read-seek-read pattern", async () => {
-		const fs = new MemoryFileSystem({ "/": "/" });
-
-		const encoder = new TextEncoder();
-		const parts: Uint8Array[] = [];
-
-		parts.push(encoder.encode("channels\0chlist\0"));
-		parts.push(new Uint8Array([20, 0, 0, 0]));
-		parts.push(new Uint8Array(20).fill(0xAA));
-
-		parts.push(encoder.encode("compression\0compression\0"));
-		parts.push(new Uint8Array([1, 0, 0, 0]));
-		parts.push(new Uint8Array([3]));
-
-		parts.push(new Uint8Array([0]));
-
-		const totalLength = parts.reduce((acc, p) => acc + p.length, 0);
-		const fileData = new Uint8Array(totalLength);
-		let offset = 0;
-		for (const part of parts) {
-			fileData.set(part, offset);
-			offset += part.length;
-		}
-
-		fs.addFile("/test.bin", fileData);
-
+describe("Dynamic Files", () => {
+	it("should generate content on open and keep it for the open handle", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		let generation = 0;
+		fs.addDynamicFile("/proc/app/counter", { read: async () => `generation ${++generation}\n` }, { size: 13 });
 		let output = "";
 		const perl = await ZeroPerl.create({
 			fileSystem: fs,
@@ -2423,126 +4694,232 @@ describe("Perl I/O Operations", () => {
 		});
 
 		const result = await perl.eval(`
-			open my $fh, '<:raw', '/test.bin' or die "Cannot open: $!";
-			my @attributes;
-			
-			while (1) {
-				my $bytes = sysread($fh, my $buff, 69);
-				die "Read failed" unless defined $bytes;
-				last if $bytes == 0;
-				last if $buff =~ /^\\0/;
-				
-				unless ($buff =~ /^([^\\0]+)\\0([^\\0]+)\\0(.{4})/s) {
-					die "Pattern match failed";
-				}
-				
-				my ($name, $type, $size_bytes) = ($1, $2, $3);
-				my $size = unpack('V', $size_bytes);
-				
-				my $match_end = length($name) + 1 + length($type) + 1 + 4;
-				my $seek_offset = $match_end - length($buff);
-				sysseek($fh, $seek_offset, 1) or die "Seek failed: $!";
-				
-				my $data_read = sysread($fh, my $data, $size);
-				die "Data read failed" unless $data_read == $size;
-				
-				push @attributes, "$name:$type:$size";
-			}
-			
-			close $fh;
-			print join(",", @attributes);
+			my $size = -s '/proc/app/counter';
+			open my $first, '<', '/proc/app/counter' or die "first: $!";
+			open my $second, '<', '/proc/app/counter' or die "second: $!";
+			my ($a, $b) = (scalar <$second>, scalar <$first>);
+			chomp($a, $b);
+			print join('|', $size, $a, $b);
 		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toContain("channels:chlist:20");
-		expect(output).toContain("compression:compression:1");
-
+		expect(output).toBe("13|generation 2|generation 1");
+		expect(await fs.readFile("/proc/app/counter", "utf8")).toBe("generation 3\n");
 		perl.dispose();
 	});
 
-	it("should correctly pack and unpack 64-bit integers", async () => {
+	it("should pass written content to write when the handle is closed", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const received: string[] = [];
+		fs.addDynamicFile("/run/request/body", {
+			read: () => "request",
+			write: (data) => {
+				received.push(new TextDecoder().decode(data));
+			},
+		});
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
 		const result = await perl.eval(`
-			my $big = 0x123456789ABCDEF0;
-			my $packed = pack("q", $big);
-			my $unpacked = unpack("q", $packed);
-			
-			if ($unpacked == $big) {
-				print "OK";
-			} else {
-				print "FAIL:expected=$big,got=$unpacked";
-			}
+			open my $fh, '>', '/run/request/body' or die "open: $!";
+			print $fh "response body";
+			die "written early" if -s '/run/request/body' == 13;
+			close $fh or die "close: $!";
+			my $written = -s '/run/request/body';
+			open $fh, '<', '/run/request/body' or die "reopen: $!";
+			my $read = <$fh>;
+			close $fh or die "close: $!";
+			print join('|', $written, $read, -s '/run/request/body');
 		`);
 		expectSuccess(result);
 		perl.flush();
 
-		expect(output).toBe("OK");
-
+		// Reading back generates new content, and closing it writes nothing.
+		expect(received).toEqual(["response body"]);
+		expect(output).toBe("13|request|7");
 		perl.dispose();
 	});
-});
 
-describe("Time::HiRes", () => {
-	it("should load Time::HiRes module", async () => {
-		const perl = await ZeroPerl.create();
+	it("should append to and rewrite generated content through one handle", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const received: string[] = [];
+		const write = (data: Uint8Array) => {
+			received.push(new TextDecoder().decode(data));
+		};
+		fs.addDynamicFile("/run/sync.log", { read: () => "sync", write });
+		fs.addDynamicFile("/run/async.log", { read: async () => "async", write }, { size: 5 });
+		fs.addDynamicFile("/run/counter", { read: () => "41", write });
 
-		const result = await perl.eval(`use Time::HiRes; 1;`);
+		const perl = await ZeroPerl.create({ fileSystem: fs });
+		const result = await perl.eval(`
+			for my $path ('/run/sync.log', '/run/async.log') {
+				open my $log, '>>', $path or die "open: $!";
+				print $log " appended";
+				close $log or die "close: $!";
+			}
+			open my $counter, '+<', '/run/counter' or die "open: $!";
+			my $value = <$counter>;
+			seek($counter, 0, 0);
+			print $counter $value + 1;
+			close $counter or die "close: $!";
+		`);
 		expectSuccess(result);
+		await new Promise((resolve) => setTimeout(resolve, 0));
 
+		expect(received.sort()).toEqual(["42", "async appended", "sync appended"]);
 		perl.dispose();
 	});
 
-	it("should get high-resolution time", async () => {
+	it("should fail the close when write throws and report later failures to onError", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const errors: string[] = [];
+		const onError = (error: unknown) => void errors.push((error as Error).message);
+		fs.addDynamicFile("/run/sync", {
+			read: () => "",
+			write: () => {
+				throw new Error("rejected");
+			},
+		});
+		fs.addDynamicFile("/run/async", { read: () => "", write: async () => Promise.reject(new Error("failed")), onError });
+		fs.addDynamicFile("/run/slow", {
+			read: async () => "",
+			write: () => {
+				throw new Error("generated late");
+			},
+			onError,
+		});
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
 		const result = await perl.eval(`
-			use Time::HiRes qw(gettimeofday);
-			my ($sec, $usec) = gettimeofday();
-			print "$sec,$usec";
+			my @results;
+			for my $path ('/run/sync', '/run/async', '/run/slow') {
+				open my $fh, '>>', $path or die "open $path: $!";
+				print $fh "data";
+				push @results, close($fh) ? 'closed' : "$!";
+			}
+			print join('|', @results);
 		`);
 		expectSuccess(result);
 		perl.flush();
+		await new Promise((resolve) => setTimeout(resolve, 0));
 
-		const [sec, usec] = output.split(",").map(Number);
-		expect(sec).toBeGreaterThan(1577836800);
-		expect(usec).toBeGreaterThanOrEqual(0);
-		expect(usec).toBeLessThan(1000000);
-
+		expect(output).toBe("I/O error|closed|closed");
+		expect(errors.sort()).toEqual(["failed", "generated late"]);
 		perl.dispose();
 	});
+});
 
-	it("should get time as float", async () => {
+describe("Pipes", () => {
+	it("should suspend Perl reads until JavaScript writes or closes the pipe", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const { writer } = fs.createPipe("/run/events", { capacity: 16 });
 		let output = "";
 		const perl = await ZeroPerl.create({
+			fileSystem: fs,
 			stdout: (data) => {
 				output += typeof data === "string" ? data : new TextDecoder().decode(data);
 			},
 		});
 
+		// A write beyond the capacity waits for a reader.
+		let drained = false;
+		const large = writer.write(`${"x".repeat(100)}\n`).then(() => {
+			drained = true;
+		});
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(drained).toBe(false);
+
+		const running = perl.eval(`
+			open my $fh, '<', '/run/events' or die "open: $!";
+			my @events;
+			while (my $line = <$fh>) {
+				chomp $line;
+				push @events, $line;
+			}
+			print join('|', scalar @events, $events[0], $events[-1], -c '/run/events' ? 'device' : 'other');
+		`);
+		await large;
+		for (let i = 1; i <= 100; i++) {
+			await writer.write(`event ${i}\n`);
+		}
+		writer.close();
+		expectSuccess(await running);
+		perl.flush();
+
+		expect(drained).toBe(true);
+		expect(output).toBe(`101|${"x".repeat(100)}|event 100|device`);
+		await expect(writer.write("late")).rejects.toThrow("closed");
+		perl.dispose();
+	});
+
+	it("should let JavaScript read what Perl writes until Perl closes the pipe", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const { reader } = fs.createPipe("/run/results");
+		const perl = await ZeroPerl.create({ fileSystem: fs });
+
+		const chunks: Uint8Array[] = [];
+		const reading = (async () => {
+			for await (const chunk of reader) chunks.push(chunk);
+		})();
 		const result = await perl.eval(`
-			use Time::HiRes qw(time);
-			my $t = time();
-			print $t;
+			open my $fh, '>', '/run/results' or die "open: $!";
+			print $fh "result $_\\n" for 1 .. 3;
+			close $fh or die "close: $!";
 		`);
 		expectSuccess(result);
-		perl.flush();
+		await reading;
 
-		const t = parseFloat(output);
-		expect(t).toBeGreaterThan(1577836800);
-		expect(output).toContain(".");
+		expect(chunks.map((chunk) => new TextDecoder().decode(chunk)).join("")).toBe("result 1\nresult 2\nresult 3\n");
+		expect(await reader.read()).toBeNull();
+		perl.dispose();
+	});
+
+	it("should throttle Perl writes to the capacity of the pipe", async () => {
+		const fs = new MemoryFileSystem({ "/": "" });
+		const { reader } = fs.createPipe("/run/log", { capacity: 16 });
+		let output = "";
+		const perl = await ZeroPerl.create({
+			fileSystem: fs,
+			stdout: (data) => {
+				output += typeof data === "string" ? data : new TextDecoder().decode(data);
+			},
+		});
+
+		// Writes queue what fits, then fail until JavaScript reads from the pipe.
+		const write = `
+			my $written = syswrite $log, $pending;
+			substr($pending, 0, $written) = '' if $written;
+			print defined $written ? $written : $!{EAGAIN} ? 'EAGAIN' : "error: $!", '|';
+		`;
+		expectSuccess(
+			await perl.eval(`
+				open our $log, '>', '/run/log' or die "open: $!";
+				our $pending = 'x' x 40;
+				${write}
+				${write}
+			`),
+		);
+		expect(new TextDecoder().decode((await reader.read()) ?? undefined)).toBe("x".repeat(16));
+		expectSuccess(await perl.eval(write));
+		expect(new TextDecoder().decode((await reader.read()) ?? undefined)).toBe("x".repeat(16));
+		expectSuccess(await perl.eval(`${write} close $log or die "close: $!";`));
+		perl.flush();
 
+		expect(output).toBe("16|EAGAIN|16|8|");
+		expect(new TextDecoder().decode((await reader.read()) ?? undefined)).toBe("x".repeat(8));
+		expect(await reader.read()).toBeNull();
 		perl.dispose();
 	});
-});
\ No newline at end of file
+});
@@ -2,18 +2,37 @@ import {
     useArgs,
     useClock,
     useEnviron,
+    useFS,
     useMemoryFS,
+    useMounts,
     useProc,
     useRandom,
     WASI,
     WASIProcExit,
 } from "./wasi";
 import { instantiate } from "./wasi/asyncify";
-import { MemoryFileSystem } from "./wasi/features/fd";
-import type { WASIOptions } from "./wasi/options";
+import { type FileSystemBackend, MemoryFileSystem, type NodeFS } from "./wasi/features/fd";
+import type { WASIFeatureProvider, WASIOptions } from "./wasi/options";
 import zeroperl from "./zeroperl.wasm";
 
-export { MemoryFileSystem } from "./wasi/features/fd";
+export { FileSystemError, HostFileSystem, MemoryFileSystem, OverlayFileSystem } from "./wasi/features/fd";
+export type {
+    DeviceOptions,
+    DynamicFileSource,
+    FileInfo,
+    FileStat,
+    FileSystemBackend,
+    FileSystemEvent,
+    FileSystemLimits,
+    FileSystemUsage,
+    FileType,
+    NodeFS,
+    PersistenceOptions,
+    PipeReader,
+    PipeWriter,
+} from "./wasi/features/fd";
+export { NodeDirectoryAdapter, SnapshotAdapter } from "./wasi/persistence";
+export type { PersistedNode, PersistenceAdapter } from "./wasi/persistence";
 
 /**
  * @fileoverview zeroperl-ts.
@@ -226,7 +245,22 @@ export class ZeroPerlError extends Error {
 /** Options for creating a ZeroPerl instance. */
 export interface ZeroPerlOptions {
     env?: Record<string, string>;
-    fileSystem?: MemoryFileSystem;
+    /**
+     * File system seen by Perl at `/`, such as a `MemoryFileSystem` or an
+     * `OverlayFileSystem` over a shared base.
+     */
+    fileSystem?: FileSystemBackend;
+    /**
+     * Use directories of the host instead of an in-memory file system.
+     * `preopens` maps guest paths to host directories; `fileSystem` is ignored.
+     */
+    hostFileSystem?: { fs: NodeFS; preopens: Record<string, string> };
+    /**
+     * File systems by guest path, combined into one tree, such as a read-only
+     * `MemoryFileSystem` at `/lib` and a `HostFileSystem` at `/work`.
+     * Takes precedence over `fileSystem` and `hostFileSystem`.
+     */
+    mounts?: Record<string, FileSystemBackend>;
     stdout?: (data: string | Uint8Array) => void;
     stderr?: (data: string | Uint8Array) => void;
     fetch?: FetchLike;
@@ -831,21 +865,30 @@ export class ZeroPerl {
      */
     static async create(options: ZeroPerlOptions = {}): Promise<ZeroPerl> {
         const source = await loadWasmSource(options.fetch);
+        const withStdIo = {
+            stdout: (data: string | Uint8Array) => options.stdout?.(data),
+            stderr: (data: string | Uint8Array) => options.stderr?.(data),
+        };
+        const host = options.hostFileSystem;
+
         const fileSystem = options.fileSystem || new MemoryFileSystem({ "/": "" });
 
+        let fileSystemFeature: WASIFeatureProvider;
+        if (options.mounts) {
+            fileSystemFeature = useMounts({ mounts: options.mounts, withStdIo });
+        } else if (host) {
+            fileSystemFeature = useFS({ fs: host.fs, withStdIo });
+        } else if (fileSystem instanceof MemoryFileSystem) {
+            fileSystemFeature = useMemoryFS({ withFileSystem: fileSystem, withStdIo });
+        } else {
+            fileSystemFeature = useMounts({ mounts: { "/": fileSystem }, withStdIo });
+        }
+
         const wasiOptions: WASIOptions = {
             env: options.env || {},
             args: ["zeroperl"],
-            features: [
-                useEnviron, useArgs, useRandom, useClock, useProc,
-                useMemoryFS({
-                    withFileSystem: fileSystem,
-                    withStdIo: {
-                        stdout: (data) => options.stdout?.(data),
-                        stderr: (data) => options.stderr?.(data),
-                    },
-                }),
-            ],
+            preopens: options.mounts ? undefined : host?.preopens,
+            features: [useEnviron, useArgs, useRandom, useClock, useProc, fileSystemFeature],
         };
 
         const wasi = new WASI(wasiOptions);
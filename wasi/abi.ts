@@ -49,7 +49,83 @@ export class WASIAbi {
      * I/O error.
      */
     static readonly WASI_ERRNO_IO = 29;
+    /**
+     * Directory not empty.
+     */
+    static readonly WASI_ERRNO_NOTEMPTY = 55;
+    /**
+     * Device or resource busy.
+     */
+    static readonly WASI_ERRNO_BUSY = 10;
+    /**
+     * Too many levels of symbolic links.
+     */
+    static readonly WASI_ERRNO_LOOP = 32;
+    /**
+     * Operation not permitted.
+     */
+    static readonly WASI_ERRNO_PERM = 63;
+    /**
+     * File too large.
+     */
+    static readonly WASI_ERRNO_FBIG = 22;
+    /**
+     * Invalid seek.
+     */
+    static readonly WASI_ERRNO_SPIPE = 70;
+    /**
+     * Permission denied.
+     */
+    static readonly WASI_ERRNO_ACCES = 2;
+    /**
+     * Read-only file system.
+     */
+    static readonly WASI_ERRNO_ROFS = 69;
+    /**
+     * Cross-device link.
+     */
+    static readonly WASI_ERRNO_XDEV = 75;
+    /**
+     * Extension: Capabilities insufficient.
+     */
+    static readonly WASI_ERRNO_NOTCAPABLE = 76;
+    /**
+     * File descriptor value too large.
+     */
+    static readonly WASI_ERRNO_MFILE = 33;
+    /**
+     * Filename too long.
+     */
+    static readonly WASI_ERRNO_NAMETOOLONG = 37;
+    /**
+     * No space left on device.
+     */
+    static readonly WASI_ERRNO_NOSPC = 51;
+    /**
+     * Not supported, or operation not supported on socket.
+     */
+    static readonly WASI_ERRNO_NOTSUP = 58;
+    /**
+     * Resource unavailable, or operation would block.
+     */
+    static readonly WASI_ERRNO_AGAIN = 6;
+    /**
+     * Reserved.
+     */
+    static readonly WASI_ERRNO_DQUOT = 19;
+    /**
+     * Broken pipe.
+     */
+    static readonly WASI_ERRNO_PIPE = 64;
 
+    /**
+     * The type of the file descriptor or file is unknown or is different from any of the other types specified.
+     */
+    static readonly WASI_FILETYPE_UNKNOWN = 0;
+    /**
+     * The file descriptor or file refers to a block device inode.
+     */
+    static readonly WASI_FILETYPE_BLOCK_DEVICE = 1;
     /**
      * The file descriptor or file refers to a character device inode.
      */
@@ -62,6 +138,191 @@ export class WASIAbi {
      * The file descriptor or file refers to a regular file inode.
      */
     static readonly WASI_FILETYPE_REGULAR_FILE = 4;
+    /**
+     * The file refers to a symbolic link inode.
+     */
+    static readonly WASI_FILETYPE_SYMBOLIC_LINK = 7;
+
+    /**
+     * As long as the resolved path corresponds to a symbolic link, it is expanded.
+     */
+    static readonly WASI_LOOKUPFLAGS_SYMLINK_FOLLOW = 1 << 0;
+
+    /**
+     * Adjust the last data access timestamp to the value stored in `filestat::atim`.
+     */
+    static readonly WASI_FSTFLAGS_ATIM = 1 << 0;
+    /**
+     * Adjust the last data access timestamp to the time of clock `clockid::realtime`.
+     */
+    static readonly WASI_FSTFLAGS_ATIM_NOW = 1 << 1;
+    /**
+     * Adjust the last data modification timestamp to the value stored in `filestat::mtim`.
+     */
+    static readonly WASI_FSTFLAGS_MTIM = 1 << 2;
+    /**
+     * Adjust the last data modification timestamp to the time of clock `clockid::realtime`.
+     */
+    static readonly WASI_FSTFLAGS_MTIM_NOW = 1 << 3;
+
+    /**
+     * Create file if it does not exist.
+     */
+    static readonly WASI_OFLAGS_CREAT = 1 << 0;
+    /**
+     * Fail if not a directory.
+     */
+    static readonly WASI_OFLAGS_DIRECTORY = 1 << 1;
+    /**
+     * Fail if file already exists.
+     */
+    static readonly WASI_OFLAGS_EXCL = 1 << 2;
+    /**
+     * Truncate file to size 0.
+     */
+    static readonly WASI_OFLAGS_TRUNC = 1 << 3;
+
+    /**
+     * Append mode: Data written to the file is always appended to the file's end.
+     */
+    static readonly WASI_FDFLAGS_APPEND = 1 << 0;
+    /**
+     * Write according to synchronized I/O data integrity completion.
+     */
+    static readonly WASI_FDFLAGS_DSYNC = 1 << 1;
+    /**
+     * Non-blocking mode.
+     */
+    static readonly WASI_FDFLAGS_NONBLOCK = 1 << 2;
+    /**
+     * Synchronized read I/O operations.
+     */
+    static readonly WASI_FDFLAGS_RSYNC = 1 << 3;
+    /**
+     * Write according to synchronized I/O file integrity completion.
+     */
+    static readonly WASI_FDFLAGS_SYNC = 1 << 4;
+
+    /**
+     * The right to invoke `fd_datasync`.
+     */
+    static readonly WASI_RIGHTS_FD_DATASYNC = 1n << 0n;
+    /**
+     * The right to invoke `fd_read` and `sock_recv`.
+     */
+    static readonly WASI_RIGHTS_FD_READ = 1n << 1n;
+    /**
+     * The right to invoke `fd_seek`.
+     */
+    static readonly WASI_RIGHTS_FD_SEEK = 1n << 2n;
+    /**
+     * The right to invoke `fd_fdstat_set_flags`.
+     */
+    static readonly WASI_RIGHTS_FD_FDSTAT_SET_FLAGS = 1n << 3n;
+    /**
+     * The right to invoke `fd_sync`.
+     */
+    static readonly WASI_RIGHTS_FD_SYNC = 1n << 4n;
+    /**
+     * The right to invoke `fd_seek` in such a way that the file offset remains unaltered, and `fd_tell`.
+     */
+    static readonly WASI_RIGHTS_FD_TELL = 1n << 5n;
+    /**
+     * The right to invoke `fd_write` and `sock_send`.
+     */
+    static readonly WASI_RIGHTS_FD_WRITE = 1n << 6n;
+    /**
+     * The right to invoke `fd_advise`.
+     */
+    static readonly WASI_RIGHTS_FD_ADVISE = 1n << 7n;
+    /**
+     * The right to invoke `fd_allocate`.
+     */
+    static readonly WASI_RIGHTS_FD_ALLOCATE = 1n << 8n;
+    /**
+     * The right to invoke `path_create_directory`.
+     */
+    static readonly WASI_RIGHTS_PATH_CREATE_DIRECTORY = 1n << 9n;
+    /**
+     * If `path_open` is set, the right to invoke `path_open` with `oflags::creat`.
+     */
+    static readonly WASI_RIGHTS_PATH_CREATE_FILE = 1n << 10n;
+    /**
+     * The right to invoke `path_link` with the file descriptor as the source directory.
+     */
+    static readonly WASI_RIGHTS_PATH_LINK_SOURCE = 1n << 11n;
+    /**
+     * The right to invoke `path_link` with the file descriptor as the target directory.
+     */
+    static readonly WASI_RIGHTS_PATH_LINK_TARGET = 1n << 12n;
+    /**
+     * The right to invoke `path_open`.
+     */
+    static readonly WASI_RIGHTS_PATH_OPEN = 1n << 13n;
+    /**
+     * The right to invoke `fd_readdir`.
+     */
+    static readonly WASI_RIGHTS_FD_READDIR = 1n << 14n;
+    /**
+     * The right to invoke `path_readlink`.
+     */
+    static readonly WASI_RIGHTS_PATH_READLINK = 1n << 15n;
+    /**
+     * The right to invoke `path_rename` with the file descriptor as the source directory.
+     */
+    static readonly WASI_RIGHTS_PATH_RENAME_SOURCE = 1n << 16n;
+    /**
+     * The right to invoke `path_rename` with the file descriptor as the target directory.
+     */
+    static readonly WASI_RIGHTS_PATH_RENAME_TARGET = 1n << 17n;
+    /**
+     * The right to invoke `path_filestat_get`.
+     */
+    static readonly WASI_RIGHTS_PATH_FILESTAT_GET = 1n << 18n;
+    /**
+     * The right to change a file's size. If `path_open` is set, includes the right to invoke `path_open` with `oflags::trunc`.
+     */
+    static readonly WASI_RIGHTS_PATH_FILESTAT_SET_SIZE = 1n << 19n;
+    /**
+     * The right to invoke `path_filestat_set_times`.
+     */
+    static readonly WASI_RIGHTS_PATH_FILESTAT_SET_TIMES = 1n << 20n;
+    /**
+     * The right to invoke `fd_filestat_get`.
+     */
+    static readonly WASI_RIGHTS_FD_FILESTAT_GET = 1n << 21n;
+    /**
+     * The right to invoke `fd_filestat_set_size`.
+     */
+    static readonly WASI_RIGHTS_FD_FILESTAT_SET_SIZE = 1n << 22n;
+    /**
+     * The right to invoke `fd_filestat_set_times`.
+     */
+    static readonly WASI_RIGHTS_FD_FILESTAT_SET_TIMES = 1n << 23n;
+    /**
+     * The right to invoke `path_symlink`.
+     */
+    static readonly WASI_RIGHTS_PATH_SYMLINK = 1n << 24n;
+    /**
+     * The right to invoke `path_remove_directory`.
+     */
+    static readonly WASI_RIGHTS_PATH_REMOVE_DIRECTORY = 1n << 25n;
+    /**
+     * The right to invoke `path_unlink_file`.
+     */
+    static readonly WASI_RIGHTS_PATH_UNLINK_FILE = 1n << 26n;
+    /**
+     * If `rights::fd_read` is set, includes the right to invoke `poll_oneoff` to subscribe to `eventtype::fd_read`. If `rights::fd_write` is set, includes the right to invoke `poll_oneoff` to subscribe to `eventtype::fd_write`.
+     */
+    static readonly WASI_RIGHTS_POLL_FD_READWRITE = 1n << 27n;
+    /**
+     * The right to invoke `sock_shutdown`.
+     */
+    static readonly WASI_RIGHTS_SOCK_SHUTDOWN = 1n << 28n;
+    /**
+     * Every right defined by WASI preview1.
+     */
+    static readonly WASI_RIGHTS_ALL = (1n << 29n) - 1n;
 
 
     static readonly IMPORT_FUNCTIONS = [
@@ -212,18 +473,44 @@ export class WASIAbi {
         size: bigint = 0n,
         atim: bigint = 0n,
         mtim: bigint = 0n,
-        ctim: bigint = 0n
+        ctim: bigint = 0n,
+        ino: bigint = 0n,
+        nlink: bigint = 1n
     ): void {
         memory.setBigUint64(ptr, /* dev */ 0n, true);
-        memory.setBigUint64(ptr + 8, /* ino */ 0n, true);
+        memory.setBigUint64(ptr + 8, /* ino */ ino, true);
         memory.setUint8(ptr + 16, filetype);
-        memory.setBigUint64(ptr + 24, /* nlink */ 1n, true);
+        memory.setBigUint64(ptr + 24, /* nlink */ nlink, true);
         memory.setBigUint64(ptr + 32, /* size */ size, true);
         memory.setBigUint64(ptr + 40, /* atim */ atim, true);
         memory.setBigUint64(ptr + 48, /* mtim */ mtim, true);
         memory.setBigUint64(ptr + 56, /* ctim */ ctim, true);
     }
 
+    private static readonly dirent_t = {
+        size: 24,
+        nextOffset: 0,
+        inoOffset: 8,
+        namlenOffset: 16,
+        typeOffset: 20,
+    };
+
+    /**
+     * Encodes a directory entry as it is laid out by `fd_readdir`: the fixed
+     * size `dirent` header immediately followed by the (unterminated) name.
+     */
+    encodeDirent(next: bigint, ino: bigint, name: string, filetype: number): Uint8Array {
+        const nameBytes = this.encoder.encode(name);
+        const bytes = new Uint8Array(WASIAbi.dirent_t.size + nameBytes.length);
+        const view = new DataView(bytes.buffer);
+        view.setBigUint64(WASIAbi.dirent_t.nextOffset, next, true);
+        view.setBigUint64(WASIAbi.dirent_t.inoOffset, ino, true);
+        view.setUint32(WASIAbi.dirent_t.namlenOffset, nameBytes.length, true);
+        view.setUint8(WASIAbi.dirent_t.typeOffset, filetype);
+        bytes.set(nameBytes, WASIAbi.dirent_t.size);
+        return bytes;
+    }
+
     writeFdstat(
         memory: DataView,
         ptr: number,
@@ -1,6 +1,24 @@
 import { WASIAbi } from "../abi";
 import type { WASIOptions } from "../options";
 
+/**
+ * Converts a time in milliseconds, as used by `Date`, to nanoseconds.
+ */
+export function msToNs(ms: number): bigint {
+    const msInt = Math.trunc(ms);
+    const decimal = BigInt(Math.round((ms - msInt) * 1_000_000));
+    const ns = BigInt(msInt) * BigInt(1_000_000);
+    return ns + decimal;
+}
+
+/**
+ * Returns the current time of `WASI_CLOCK_REALTIME` in nanoseconds since the epoch,
+ * as reported by `clock_time_get`.
+ */
+export function realtimeNow(): bigint {
+    return msToNs(Date.now());
+}
+
 /**
  * A feature provider that provides `clock_res_get` and `clock_time_get` by JavaScript's Date.
  */
@@ -40,12 +58,6 @@ export function useClock(_options: WASIOptions, _abi: WASIAbi, memoryView: () =>
             }
             const view = memoryView();
             if (BigInt) {
-                const msToNs = (ms: number) => {
-                    const msInt = Math.trunc(ms);
-                    const decimal = BigInt(Math.round((ms - msInt) * 1_000_000));
-                    const ns = BigInt(msInt) * BigInt(1_000_000);
-                    return ns + decimal;
-                };
                 const now = BigInt(msToNs(nowMs));
                 view.setBigUint64(time, now, true);
             } else {
@@ -1,5 +1,9 @@
 import { WASIAbi } from "../abi";
 import type { WASIFeatureProvider, WASIOptions } from "../options";
+import type { PersistedNode, PersistenceAdapter } from "../persistence";
+import { readTar, type TarEntry, writeTar } from "../tar";
+import { extractZipEntry, readZipDirectory } from "../zip";
+import { msToNs, realtimeNow } from "./clock";
 
 interface FdEntry {
   writev(iovs: Uint8Array[]): number;
@@ -95,6 +99,183 @@ export class ReadableTextProxy implements FdEntry {
   close(): void { }
 }
 
+/**
+ * Callbacks of a device added with `MemoryFileSystem.addDevice`, which work
+ * like the standard input and output callbacks.
+ */
+export type DeviceOptions = {
+  /** Returns the next data to read, or an empty string or array at end of input. */
+  read?: () => string | Uint8Array;
+  /** Receives written data, decoded as UTF-8 unless `outputBuffers` is set. */
+  write?: (data: string | Uint8Array) => void;
+  outputBuffers?: boolean;
+};
+
+/**
+ * A device added with `MemoryFileSystem.addDevice`. Without `read` it reads as
+ * empty, and without `write` writes fail with EBADF.
+ */
+class CallbackDevice implements FdEntry {
+  private readonly input: ReadableTextProxy | null;
+  private readonly output: WritableTextProxy | null;
+  constructor(options: DeviceOptions) {
+    this.input = options.read ? new ReadableTextProxy(options.read) : null;
+    this.output = options.write ? new WritableTextProxy(options.write, options.outputBuffers || false) : null;
+  }
+
+  writev(iovs: Uint8Array[]): number {
+    if (!this.output) throw new FileSystemError(WASIAbi.WASI_ERRNO_BADF, "Device is not writable");
+    return this.output.writev(iovs);
+  }
+  readv(iovs: Uint8Array[]): number {
+    return this.input ? this.input.readv(iovs) : 0;
+  }
+  close(): void { }
+}
+
+/**
+ * The JavaScript end of a pipe created with `MemoryFileSystem.createPipe` that writes to it.
+ */
+export interface PipeWriter {
+  /**
+   * Queues data for readers of the pipe. Rejects with EPIPE once the writer is closed.
+   * @returns A promise resolved once the pipe holds no more than its capacity,
+   * which producers should wait for so that they do not outrun readers
+   */
+  write(data: string | Uint8Array): Promise<void>;
+  /** Ends the input of readers once they have read the queued data. */
+  close(): void;
+}
+
+/**
+ * The JavaScript end of a pipe created with `MemoryFileSystem.createPipe` that reads from it.
+ */
+export interface PipeReader extends AsyncIterable<Uint8Array> {
+  /** Reads the next chunk of queued data, waiting for a writer. Resolves to null at the end of input. */
+  read(): Promise<Uint8Array | null>;
+}
+
+/**
+ * The buffer of a pipe. Reads of an empty pipe wait for data, and return the
+ * end of input once every writer that opened the pipe has closed it.
+ */
+class Pipe {
+  private chunks: Uint8Array[] = [];
+  /** Number of bytes queued. */
+  private queued = 0;
+  /** Number of open write ends. */
+  private writers = 0;
+  /** Whether a write end was closed, so that an empty pipe without writers is at its end. */
+  private closed = false;
+  /** Readers waiting for data or the end of input. */
+  private readers: (() => void)[] = [];
+  /** Writers waiting for the queued data to fit the capacity. */
+  private drains: (() => void)[] = [];
+
+  constructor(private readonly capacity: number) { }
+
+  openWriter(): void {
+    this.writers++;
+  }
+
+  closeWriter(): void {
+    this.writers--;
+    this.closed = true;
+    if (this.writers === 0) wake(this.readers);
+  }
+
+  writev(iovs: Uint8Array[]): number {
+    let total = 0;
+    for (const iov of iovs) {
+      if (iov.byteLength === 0) continue;
+      this.chunks.push(iov.slice());
+      this.queued += iov.byteLength;
+      total += iov.byteLength;
+    }
+    if (total > 0) wake(this.readers);
+    return total;
+  }
+
+  /**
+   * Queues as much of the buffers as fits the capacity, for writers that
+   * cannot wait for readers.
+   * @returns The number of bytes queued
+   * @throws {FileSystemError} EAGAIN if the pipe is full
+   */
+  writeAvailable(iovs: Uint8Array[]): number {
+    let room = this.capacity - this.queued;
+    if (room <= 0 && iovs.some((iov) => iov.byteLength > 0)) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_AGAIN, "The pipe is full");
+    }
+    const parts: Uint8Array[] = [];
+    for (const iov of iovs) {
+      if (room <= 0) break;
+      parts.push(iov.subarray(0, room));
+      room -= iov.byteLength;
+    }
+    return this.writev(parts);
+  }
+
+  /**
+   * Reads queued data into buffers, waiting for data or the end of input if
+   * there is none. Only returns a promise when it has to wait.
+   */
+  readv(iovs: Uint8Array[]): number | Promise<number> {
+    if (this.queued === 0) {
+      if (this.closed && this.writers === 0) return 0;
+      return new Promise<void>((resolve) => this.readers.push(resolve)).then(() => this.readv(iovs));
+    }
+    let read = 0;
+    for (const iov of iovs) {
+      let offset = 0;
+      while (offset < iov.byteLength && this.queued > 0) {
+        const chunk = this.take(iov.byteLength - offset);
+        iov.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+      read += offset;
+    }
+    return read;
+  }
+
+  async read(): Promise<Uint8Array | null> {
+    while (this.queued === 0) {
+      if (this.closed && this.writers === 0) return null;
+      await new Promise<void>((resolve) => this.readers.push(resolve));
+    }
+    return this.take(this.queued);
+  }
+
+  /**
+   * Waits until the queued data fits the capacity.
+   */
+  drained(): Promise<void> {
+    if (this.queued <= this.capacity) return Promise.resolve();
+    return new Promise((resolve) => this.drains.push(resolve));
+  }
+
+  /**
+   * Takes up to `length` bytes from the first queued chunk.
+   */
+  private take(length: number): Uint8Array {
+    const chunk = this.chunks[0] as Uint8Array;
+    let taken = chunk;
+    if (chunk.byteLength > length) {
+      taken = chunk.subarray(0, length);
+      this.chunks[0] = chunk.subarray(length);
+    } else {
+      this.chunks.shift();
+    }
+    this.queued -= taken.byteLength;
+    if (this.queued <= this.capacity) wake(this.drains);
+    return taken;
+  }
+}
+
+function wake(waiters: (() => void)[]): void {
+  for (const resolve of waiters.splice(0)) resolve();
+}
+
 export type StdIoOptions = {
   stdin?: () => string | Uint8Array;
   stdout?: (lines: string | Uint8Array) => void;
@@ -196,41 +377,573 @@ export function useStdio(useOptions: StdIoOptions = {}): WASIFeatureProvider {
 
 type FileDescriptor = number;
 
+/**
+ * Timestamps of a node, in nanoseconds since the epoch.
+ */
+interface NodeTimes {
+  /** Time of last data access. */
+  atim?: bigint;
+  /** Time of last data modification. */
+  mtim?: bigint;
+  /** Time of last status change. */
+  ctim?: bigint;
+}
+
 /**
  * Represents a node in the file system that is a directory.
  */
-interface DirectoryNode {
+interface DirectoryNode extends NodeTimes {
   readonly type: "dir";
   entries: Record<string, FSNode>;
+  /** Whether the directory and everything below it is read-only. */
+  readOnly?: boolean;
 }
 
 /**
  * Represents a node in the file system that is a file.
  */
-interface FileNode {
+interface FileNode extends NodeTimes {
   readonly type: "file";
+  /** Content, which may be a view of a larger buffer with room to grow, see `growContent`. */
   content: Uint8Array | Blob;
+  /** Bytes last read ahead from Blob content, so that small reads do not each wait for the Blob. */
+  readCache?: { blob: Blob; offset: number; data: Uint8Array };
+  /** Whether the file is read-only. */
+  readOnly?: boolean;
+  /** Loads the content on first use, for files added with `addLazyFile`. */
+  loader?: () => FileContent | Promise<FileContent>;
+  /** Size reported until the content is loaded. */
+  sizeHint?: number;
+  /** Pending call of `loader`. */
+  loading?: Promise<void>;
+  /** Changes made before the content was loaded, applied to it in order once it is. */
+  edits?: PendingEdit[];
+  /** Generates the content on each open, for files added with `addDynamicFile`. */
+  source?: DynamicFileSource;
+  /** The dynamic file this is the content of, for a descriptor that opened one. */
+  snapshotOf?: FileNode;
 }
 
+/**
+ * A change to a lazy file made before its content was loaded. Writes with a
+ * null position append to the content.
+ */
+type PendingEdit =
+  | { kind: "write"; data: Uint8Array; position: number | null }
+  | { kind: "resize"; size: number; allowShrink: boolean };
+
+/**
+ * A device. "console" devices open the standard streams of the instance using
+ * the file system, "custom" ones come from `addDevice` and pipes from `createPipe`.
+ */
 type CharacterDeviceNode =
-  | { readonly type: "character"; kind: "stdio"; entry: FdEntry }
-  | { readonly type: "character"; kind: "devnull" };
+  | { readonly type: "character"; kind: "devnull" }
+  | { readonly type: "character"; kind: "zero" }
+  | { readonly type: "character"; kind: "random" }
+  | { readonly type: "character"; kind: "console"; stream: "stdin" | "stdout" | "stderr" | "tty" }
+  | { readonly type: "character"; kind: "custom"; entry: FdEntry }
+  | { readonly type: "character"; kind: "pipe"; pipe: Pipe };
+
+/**
+ * Represents a node in the file system that is a symbolic link.
+ */
+interface SymlinkNode {
+  readonly type: "symlink";
+  target: string;
+}
 
 /**
  * Union type representing any node in the file system.
  */
-type FSNode = DirectoryNode | FileNode | CharacterDeviceNode;
+type FSNode = DirectoryNode | FileNode | CharacterDeviceNode | SymlinkNode;
 
 /**
- * Represents an open file in the file system.
+ * Timestamps for a node created now.
  */
-interface OpenFile {
-  node: FSNode;
-  position: number;
-  path: string;
-  isPreopen?: boolean;
-  preopenPath?: string;
-  fd: FileDescriptor;
+function currentTimes(): Required<NodeTimes> {
+  const now = realtimeNow();
+  return { atim: now, mtim: now, ctim: now };
+}
+
+/**
+ * Maximum number of symbolic links followed while resolving a single path.
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/** Smallest buffer allocated for a file that is written to. */
+const MIN_FILE_CAPACITY = 256;
+
+/** Bytes read from Blob content at once, served to later reads from memory. */
+const BLOB_READ_AHEAD = 64 * 1024;
+
+function getFileTimes(node: FSNode): { atim: bigint; mtim: bigint; ctim: bigint } {
+  if (node.type !== "file" && node.type !== "dir") {
+    return { atim: 0n, mtim: 0n, ctim: 0n };
+  }
+  // Nodes set up without timestamps fall back to the modification time of their `File`.
+  let fallback = 0n;
+  if (node.type === "file" && node.content instanceof Blob) {
+    fallback = BigInt((node.content as File).lastModified ?? Date.now()) * 1_000_000n;
+  }
+  return {
+    atim: node.atim ?? fallback,
+    mtim: node.mtim ?? fallback,
+    ctim: node.ctim ?? fallback,
+  };
+}
+
+function markAccessed(node: FSNode): void {
+  if (node.type === "file" || node.type === "dir") {
+    node.atim = realtimeNow();
+  }
+}
+
+function markModified(node: FSNode): void {
+  if (node.type === "file" || node.type === "dir") {
+    const now = realtimeNow();
+    node.mtim = now;
+    node.ctim = now;
+  }
+}
+
+function getFileSize(file: FileNode): number {
+  if (file.loader || file.source) return file.sizeHint ?? 0;
+  if (file.content instanceof Blob) {
+    return file.content.size;
+  }
+  return file.content.byteLength;
+}
+
+/**
+ * Buffers allocated by `growContent`, which file content may be extended into.
+ * Other buffers may hold data of the caller past the content.
+ */
+const growableBuffers = new WeakSet<ArrayBufferLike>();
+
+/**
+ * Extends the content of a file to a size, filling with zeros. The content is
+ * a view of a larger buffer, which at least doubles when it has to grow so
+ * that a file written in small appends is copied a logarithmic number of times.
+ * @returns The extended content
+ */
+function growContent(file: FileNode, size: number): Uint8Array {
+  const content = file.content as Uint8Array;
+  if (size <= content.byteLength) return content;
+
+  // The buffer past the content is still zeros, as content only shrinks by copying.
+  const { buffer, byteOffset } = content;
+  if (growableBuffers.has(buffer) && byteOffset + size <= buffer.byteLength) {
+    file.content = new Uint8Array(buffer, byteOffset, size);
+    return file.content;
+  }
+  const grown = new Uint8Array(Math.max(size, content.byteLength * 2, MIN_FILE_CAPACITY));
+  grown.set(content, 0);
+  growableBuffers.add(grown.buffer);
+  file.content = grown.subarray(0, size);
+  return file.content;
+}
+
+function resizeFile(node: FileNode, size: bigint, allowShrink: boolean): number {
+  if (size > BigInt(Number.MAX_SAFE_INTEGER)) return WASIAbi.WASI_ERRNO_FBIG;
+  const newSize = Number(size);
+  if (!allowShrink && newSize <= getFileSize(node)) return WASIAbi.WASI_ESUCCESS;
+
+  materializeBlob(node);
+  if (node.loader) {
+    // Content that is not loaded yet is thrown away by truncation, or resized once it is loaded.
+    if (newSize !== 0 || !allowShrink) {
+      deferEdit(node, { kind: "resize", size: newSize, allowShrink });
+      markModified(node);
+      preloadContent(node);
+      return WASIAbi.WASI_ESUCCESS;
+    }
+    discardLoader(node);
+  }
+  const content = node.content as Uint8Array;
+  if (newSize <= content.byteLength) {
+    node.content = content.slice(0, newSize);
+  } else {
+    growContent(node, newSize);
+  }
+  markModified(node);
+  return WASIAbi.WASI_ESUCCESS;
+}
+
+/**
+ * Starts loading the content of a lazy file, if it is not loaded yet. Content
+ * a loader returns synchronously is used at once.
+ * @returns A promise settled once the content is loaded, or null if it already is
+ */
+function loadContent(node: FileNode): Promise<void> | null {
+  const loader = node.loader;
+  if (!loader) return null;
+  if (!node.loading) {
+    let result: FileContent | Promise<FileContent>;
+    try {
+      result = loader();
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+    // Blob content is read into memory first when there are changes to apply to it.
+    if (!(result instanceof Promise) && !(node.edits && result instanceof Blob)) {
+      setLoadedContent(node, result);
+      return null;
+    }
+    node.loading = (async () => {
+      let content: FileContent;
+      try {
+        content = await result;
+        if (node.edits && content instanceof Blob) content = new Uint8Array(await content.arrayBuffer());
+      } catch (error) {
+        // A later read tries again.
+        delete node.loading;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_IO, `Cannot load file: ${message}`);
+      }
+      // The file may have been truncated while loading.
+      if (node.loader !== loader) return;
+      setLoadedContent(node, content);
+    })();
+  }
+  return node.loading;
+}
+
+/**
+ * Replaces the content of a lazy file with the loaded content, and applies the
+ * changes made before it was loaded.
+ */
+function setLoadedContent(node: FileNode, content: FileContent): void {
+  const edits = node.edits ?? [];
+  node.content = typeof content === "string" ? new TextEncoder().encode(content) : content;
+  discardLoader(node);
+  for (const edit of edits) {
+    if (edit.kind === "write") writeFileAt(node, [edit.data], edit.position);
+    else resizeFile(node, BigInt(edit.size), edit.allowShrink);
+  }
+  if (node.snapshotOf) node.snapshotOf.sizeHint = getFileSize(node);
+}
+
+/**
+ * Records a change to a lazy file whose content is not loaded yet, and
+ * updates the size it reports until then.
+ */
+function deferEdit(node: FileNode, edit: PendingEdit): void {
+  (node.edits ??= []).push(edit);
+  const size = node.sizeHint ?? 0;
+  if (edit.kind === "resize") {
+    node.sizeHint = edit.allowShrink ? edit.size : Math.max(size, edit.size);
+  } else {
+    node.sizeHint = Math.max(size, (edit.position ?? size) + edit.data.byteLength);
+  }
+}
+
+/**
+ * Starts loading the content of a lazy file that was opened, so it is ready
+ * by the time it is read. Failures are reported by the read itself.
+ */
+function preloadContent(node: FSNode): void {
+  if (node.type === "file") loadContent(node)?.catch(() => {});
+}
+
+/**
+ * Turns Blob content into a lazy file loading the bytes of the Blob, so that
+ * writes and resizing, which cannot wait for them, are applied once they are
+ * read. Files opened for writing are turned into one right away, to start reading.
+ */
+function materializeBlob(node: FSNode): void {
+  if (node.type !== "file" || !(node.content instanceof Blob)) return;
+  const blob = node.content;
+  // The times a File falls back to are kept.
+  Object.assign(node, getFileTimes(node));
+  node.content = new Uint8Array(0);
+  node.loader = async () => new Uint8Array(await blob.arrayBuffer());
+  node.sizeHint = blob.size;
+  delete node.readCache;
+}
+
+/**
+ * Turns a lazy or dynamic file into a regular one, keeping its current content.
+ */
+function discardLoader(node: FileNode): void {
+  delete node.loader;
+  delete node.sizeHint;
+  delete node.loading;
+  delete node.edits;
+  delete node.source;
+}
+
+/**
+ * Opens a dynamic file, giving the descriptor content of its own that is
+ * generated like the content of a lazy file.
+ * @returns A detached file for the descriptor, or the node itself if it is not dynamic
+ */
+function openSnapshot<T extends FSNode>(node: T): T | FileNode {
+  if (node.type !== "file" || !node.source) return node;
+  const snapshot: FileNode = {
+    type: "file",
+    content: new Uint8Array(0),
+    loader: node.source.read,
+    snapshotOf: node,
+    atim: node.atim,
+    mtim: node.mtim,
+    ctim: node.ctim,
+  };
+  if (node.sizeHint !== undefined) snapshot.sizeHint = node.sizeHint;
+  if (node.readOnly) snapshot.readOnly = true;
+  return snapshot;
+}
+
+/**
+ * Delivers the content written through a descriptor of a dynamic file to its
+ * `write` callback, once the writes made before the content was generated are
+ * applied to it. Failures after the descriptor is closed go to `onError`.
+ * @returns EIO if the callback throws while the descriptor is closed, otherwise null
+ */
+function commitSnapshot(node: FSNode): FileSystemError | null {
+  if (node.type !== "file" || !node.snapshotOf) return null;
+  const file = node.snapshotOf;
+  const source = file.source;
+  file.sizeHint = getFileSize(node);
+  markModified(file);
+  const deliver = () => {
+    // Generated content is never a Blob, and applying writes keeps it an array.
+    const data = (node.content as Uint8Array).slice();
+    file.sizeHint = data.byteLength;
+    return source?.write?.(data);
+  };
+
+  let delivered: void | Promise<void>;
+  const loading = loadContent(node);
+  if (loading) {
+    delivered = loading.then(deliver);
+  } else {
+    try {
+      delivered = deliver();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return new FileSystemError(WASIAbi.WASI_ERRNO_IO, `Cannot write file: ${message}`);
+    }
+  }
+  // Without a handler, failures stay unhandled rejections rather than being lost.
+  if (delivered && source?.onError) delivered.catch((error) => source.onError?.(error));
+  return null;
+}
+
+function readFileAt(
+  node: FileNode,
+  iovViews: Uint8Array[],
+  position: number
+): number | Promise<number> {
+  const loading = loadContent(node);
+  if (loading) return loading.then(() => readFileAt(node, iovViews, position));
+  const data = node.content;
+  if (data instanceof Blob) return readBlobAt(node, data, iovViews, position);
+
+  let totalRead = 0;
+  for (const buf of iovViews) {
+    const offset = position + totalRead;
+    if (offset >= data.byteLength) break;
+    const bytesToRead = Math.min(buf.byteLength, data.byteLength - offset);
+    if (bytesToRead <= 0) break;
+    buf.set(data.subarray(offset, offset + bytesToRead));
+    totalRead += bytesToRead;
+  }
+  markAccessed(node);
+  return totalRead;
+}
+
+/**
+ * Reads Blob content through the read-ahead cache of a file. Reads the cache
+ * holds complete without waiting.
+ */
+function readBlobAt(
+  node: FileNode,
+  blob: Blob,
+  iovViews: Uint8Array[],
+  position: number
+): number | Promise<number> {
+  let totalRead = 0;
+  for (let i = 0; i < iovViews.length; i++) {
+    const buf = iovViews[i] as Uint8Array;
+    const offset = position + totalRead;
+    if (offset >= blob.size) break;
+    const bytesToRead = Math.min(buf.byteLength, blob.size - offset);
+    if (bytesToRead <= 0) break;
+
+    const cache = node.readCache;
+    if (
+      !cache ||
+      cache.blob !== blob ||
+      offset < cache.offset ||
+      offset + bytesToRead > cache.offset + cache.data.byteLength
+    ) {
+      return (async () => {
+        const end = Math.min(blob.size, offset + Math.max(bytesToRead, BLOB_READ_AHEAD));
+        const data = new Uint8Array(await blob.slice(offset, end).arrayBuffer());
+        node.readCache = { blob, offset, data };
+        return totalRead + (await readBlobAt(node, blob, iovViews.slice(i), offset));
+      })();
+    }
+    buf.set(cache.data.subarray(offset - cache.offset, offset - cache.offset + bytesToRead));
+    totalRead += bytesToRead;
+  }
+  markAccessed(node);
+  return totalRead;
+}
+
+/**
+ * Writes buffers to a file at a position, or appends them for a null position.
+ * Writes to a lazy file whose content is not loaded yet are applied once it is,
+ * as only reads may wait for it.
+ * @returns The number of bytes written
+ */
+function writeFileAt(
+  node: FileNode,
+  iovViews: Uint8Array[],
+  position: number | null
+): number {
+  const dataToWrite = iovViews.reduce(
+    (acc, buf) => acc + buf.byteLength,
+    0
+  );
+  materializeBlob(node);
+  if (node.loader) {
+    const data = new Uint8Array(dataToWrite);
+    let offset = 0;
+    for (const buf of iovViews) {
+      data.set(buf, offset);
+      offset += buf.byteLength;
+    }
+    deferEdit(node, { kind: "write", data, position });
+    markModified(node);
+    return dataToWrite;
+  }
+  position ??= getFileSize(node);
+  const requiredLength = position + dataToWrite;
+
+  // Growing leaves any gap past the old end zero-filled.
+  const content = growContent(node, requiredLength);
+  let pos = position;
+  for (const buf of iovViews) {
+    content.set(buf, pos);
+    pos += buf.byteLength;
+  }
+
+  markModified(node);
+  return dataToWrite;
+}
+
+/**
+ * Gets the entry that reads and writes a device. Console devices read as empty
+ * and discard writes here, as only an instance has standard streams for them.
+ */
+function deviceEntry(node: Exclude<CharacterDeviceNode, { kind: "pipe" }>): FdEntry {
+  switch (node.kind) {
+    case "custom":
+      return node.entry;
+    case "devnull":
+    case "console":
+      return nullDevice;
+    case "zero":
+      return zeroDevice;
+    case "random":
+      return randomDevice;
+  }
+}
+
+/**
+ * Gets the entry a console device opens.
+ * @param stdio Standard input, output and error of the instance
+ */
+function consoleEntry(stream: "stdin" | "stdout" | "stderr" | "tty", stdio: FdEntry[]): FdEntry {
+  const [stdin, stdout, stderr] = stdio as [FdEntry, FdEntry, FdEntry];
+  switch (stream) {
+    case "stdin":
+      return stdin;
+    case "stdout":
+      return stdout;
+    case "stderr":
+      return stderr;
+    case "tty":
+      // There is no terminal, so it reads standard input and writes standard output.
+      return { readv: (iovs) => stdin.readv(iovs), writev: (iovs) => stdout.writev(iovs), close: () => {} };
+  }
+}
+
+function getFileType(node: FSNode): number {
+  switch (node.type) {
+    case "character":
+      return WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE;
+    case "dir":
+      return WASIAbi.WASI_FILETYPE_DIRECTORY;
+    case "file":
+      return WASIAbi.WASI_FILETYPE_REGULAR_FILE;
+    case "symlink":
+      return WASIAbi.WASI_FILETYPE_SYMBOLIC_LINK;
+  }
+}
+
+/**
+ * Rights that allow a descriptor to change the node it refers to, or the
+ * entries of a directory.
+ */
+const MUTATING_RIGHTS =
+  WASIAbi.WASI_RIGHTS_FD_WRITE |
+  WASIAbi.WASI_RIGHTS_FD_ALLOCATE |
+  WASIAbi.WASI_RIGHTS_FD_FILESTAT_SET_SIZE |
+  WASIAbi.WASI_RIGHTS_FD_FILESTAT_SET_TIMES |
+  WASIAbi.WASI_RIGHTS_PATH_CREATE_DIRECTORY |
+  WASIAbi.WASI_RIGHTS_PATH_CREATE_FILE |
+  WASIAbi.WASI_RIGHTS_PATH_LINK_TARGET |
+  WASIAbi.WASI_RIGHTS_PATH_RENAME_SOURCE |
+  WASIAbi.WASI_RIGHTS_PATH_RENAME_TARGET |
+  WASIAbi.WASI_RIGHTS_PATH_FILESTAT_SET_SIZE |
+  WASIAbi.WASI_RIGHTS_PATH_FILESTAT_SET_TIMES |
+  WASIAbi.WASI_RIGHTS_PATH_SYMLINK |
+  WASIAbi.WASI_RIGHTS_PATH_REMOVE_DIRECTORY |
+  WASIAbi.WASI_RIGHTS_PATH_UNLINK_FILE;
+
+/**
+ * Rights requested by `path_open` when a file is opened for writing.
+ */
+const FILE_WRITE_RIGHTS =
+  WASIAbi.WASI_RIGHTS_FD_WRITE |
+  WASIAbi.WASI_RIGHTS_FD_ALLOCATE |
+  WASIAbi.WASI_RIGHTS_FD_FILESTAT_SET_SIZE;
+
+/**
+ * POSIX error names by WASI errno, derived from the `WASI_ERRNO_*` constants.
+ */
+const ERRNO_CODES = new Map(
+  Object.entries(WASIAbi)
+    .filter(([key]) => key.startsWith("WASI_ERRNO_"))
+    .map(([key, errno]) => [errno as number, `E${key.slice("WASI_ERRNO_".length)}`])
+);
+
+/**
+ * Error thrown by `MemoryFileSystem` operations, carrying the WASI errno the
+ * failure is reported as to the guest.
+ */
+export class FileSystemError extends Error {
+  readonly errno: number;
+  /** POSIX name of the error, such as "ENOENT". */
+  readonly code: string;
+
+  constructor(errno: number, message: string) {
+    super(message);
+    this.name = "FileSystemError";
+    this.errno = errno;
+    this.code = ERRNO_CODES.get(errno) ?? "EIO";
+  }
+}
+
+/**
+ * Maps an error thrown by a `MemoryFileSystem` operation to a WASI errno,
+ * rethrowing anything that is not a `FileSystemError`.
+ */
+function toErrno(error: unknown): number {
+  if (error instanceof FileSystemError) return error.errno;
+  throw error;
 }
 
 /**
@@ -238,23 +951,213 @@ interface OpenFile {
  */
 type FileContent = string | Uint8Array | Blob;
 
+/**
+ * Callbacks of a file added with `MemoryFileSystem.addDynamicFile`.
+ */
+export interface DynamicFileSource {
+  /** Generates the content of the file, each time it is opened. */
+  read(): string | Uint8Array | Promise<string | Uint8Array>;
+  /**
+   * Receives the content of the file when a descriptor that wrote to it is
+   * closed. If it throws, closing the descriptor fails with EIO.
+   */
+  write?(data: Uint8Array): void | Promise<void>;
+  /**
+   * Receives failures that happen after the descriptor is closed: of `write`
+   * when it returns a promise, or when it waits for `read`. Without it, they
+   * are unhandled promise rejections.
+   */
+  onError?(error: unknown): void;
+}
+
+/**
+ * Kind of a node, as reported by the `MemoryFileSystem` file API.
+ */
+export type FileType = "file" | "directory" | "symlink" | "device";
+
+/**
+ * Limits of a `MemoryFileSystem`. Nodes added with `addFile`, `setNode` and the
+ * archive methods count towards them but are not rejected.
+ */
+export interface FileSystemLimits {
+  /** Total size of all files in bytes; writes beyond it fail with ENOSPC. */
+  maxBytes?: number;
+  /** Size of a single file in bytes; writes beyond it fail with EFBIG. */
+  maxFileSize?: number;
+  /** Number of files, directories and symbolic links; creating more fails with EDQUOT. */
+  maxNodes?: number;
+}
+
+/**
+ * Space used in a `MemoryFileSystem`, as reported by `usage`.
+ */
+export interface FileSystemUsage {
+  /** Total size of all files in bytes, counting files with several links once and removed files that are still open. */
+  bytes: number;
+  /** Number of nodes below the root, not counting devices, and of removed files that are still open. */
+  nodes: number;
+  limits: FileSystemLimits;
+}
+
+/**
+ * A change reported to the listeners of `MemoryFileSystem.watch`.
+ */
+export interface FileSystemEvent {
+  type: "create" | "modify" | "delete" | "rename";
+  /** Absolute path of the node, after the change for "rename". */
+  path: string;
+  /** Absolute path of the node before it was renamed, for "rename". */
+  oldPath?: string;
+}
+
+/**
+ * Options of `MemoryFileSystem.persist`.
+ */
+export interface PersistenceOptions {
+  /**
+   * When changes are saved: "write-through" saves each change as it happens,
+   * "sync" saves pending changes when Perl syncs a file or closes a file it
+   * wrote, and on `flush`. Defaults to "sync".
+   */
+  flush?: "write-through" | "sync";
+  /**
+   * Called when a save started in the background fails. Without it, the next
+   * `flush` rejects with the error instead. Either way, the changes are saved
+   * again by the next save.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Metadata of a node of a `MemoryFileSystem`.
+ */
+export interface FileInfo extends FileStat {
+  type: FileType;
+  /** Whether the node is a read-only file or in a read-only directory. */
+  readonly: boolean;
+  atime: Date;
+  mtime: Date;
+  ctime: Date;
+}
+
+function typeOf(node: FSNode): FileType {
+  switch (node.type) {
+    case "dir":
+      return "directory";
+    case "character":
+      return "device";
+    default:
+      return node.type;
+  }
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching whole paths.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no directory at all.
+      if (pattern[i + 2] === "/") {
+        source += "(?:[^/]+/)*";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && pattern.indexOf("]", i + 2) !== -1) {
+      const end = pattern.indexOf("]", i + 2);
+      const set = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += `[${set.startsWith("!") ? `^${set.slice(1)}` : set}]`;
+      i = end;
+    } else if (char === "{") {
+      source += "(?:";
+      braces++;
+    } else if (char === "}" && braces > 0) {
+      source += ")";
+      braces--;
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
 /**
  * In-memory implementation of a file system.
  */
-export class MemoryFileSystem {
+export class MemoryFileSystem implements FileSystemBackend {
   private root: DirectoryNode;
   private preopenPaths: string[] = [];
+  private inodes = new WeakMap<FSNode, bigint>();
+  private nextInode = 1n;
+  /** Number of hard links to a node beyond the directory entry it was created with. */
+  private extraLinks = new WeakMap<FSNode, number>();
+  /** Space used by the counted nodes, kept up to date as they change, see `usage`. */
+  private used = { bytes: 0, nodes: 0 };
+  /** Nodes counted in `used`: those in the tree, and removed files that are still open. */
+  private counted = new Set<FSNode>();
+  /** Size each counted file is counted with in `used.bytes`. */
+  private countedSizes = new Map<FileNode, number>();
+  /** Removed files that are still open, released when their last handle is closed. */
+  private orphans = new Set<FileNode>();
+  /** Directory each directory is an entry of, by the directory, for finding paths without a search. */
+  private parents = new WeakMap<DirectoryNode, { parent: DirectoryNode; name: string }>();
+  /** Files opened through the `FileSystemBackend` methods, by handle. */
+  private handles = new Map<number, FileNode | CharacterDeviceNode>();
+  /** Directory each handle's file was opened in, kept up to date when the file is renamed. */
+  private handleParents = new Map<number, DirectoryNode>();
+  private nextHandle = 1;
+  /** Handles written to since they were opened, reported as modified when closed. */
+  private modifiedHandles = new Set<number>();
+  /** Handles of pipes opened for writing, which end the input of readers once all are closed. */
+  private pipeWriterHandles = new Set<number>();
+  /** Listeners registered with `watch`, with the normalized path they watch. */
+  private watchers: { path: string; listener: (event: FileSystemEvent) => void }[] = [];
+  /** Adapter set by `persist`, with the paths changed since the last save and the paths it holds. */
+  private persistence: {
+    adapter: PersistenceAdapter;
+    options: PersistenceOptions;
+    pending: Set<string>;
+    saved: Set<string>;
+    /** Last save, which the next one waits for. */
+    queue: Promise<void>;
+    /** Failure of a background save without `onError`, which the next `flush` rejects with. */
+    failure: { error: unknown } | null;
+  } | null = null;
+  /** Limits on the size of the file system, which can be changed at any time. */
+  limits: FileSystemLimits;
 
   /**
    * Creates a new memory file system.
    * @param preopens Optional list of directories to pre-open
+   * @param options.limits Limits on what the guest and the file API may write
    */
-  constructor(preopens?: { [guestPath: string]: string } | undefined) {
-    this.root = { type: "dir", entries: {} };
+  constructor(
+    preopens?: { [guestPath: string]: string } | undefined,
+    options: { limits?: FileSystemLimits } = {}
+  ) {
+    this.root = { type: "dir", entries: {}, ...currentTimes() };
+    this.limits = { ...options.limits };
 
     // Setup essential directories and special files
     this.ensureDir("/dev");
     this.setNode("/dev/null", { type: "character", kind: "devnull" });
+    this.setNode("/dev/zero", { type: "character", kind: "zero" });
+    this.setNode("/dev/random", { type: "character", kind: "random" });
+    this.setNode("/dev/urandom", { type: "character", kind: "random" });
+    for (const stream of ["stdin", "stdout", "stderr", "tty"] as const) {
+      this.setNode(`/dev/${stream}`, { type: "character", kind: "console", stream });
+    }
 
     // Setup preopened directories
     if (preopens) {
@@ -275,17 +1178,309 @@ export class MemoryFileSystem {
     const dirPath = `/${parts.join("/")}`;
     const dir = this.ensureDir(dirPath);
     if (fileName) {
-      delete dir.entries[fileName];
+      this.detachEntry(dir, fileName);
     }
   }
 
-  addFile(path: string, content: FileContent): void {
-    if (typeof content === "string") {
-      const data = new TextEncoder().encode(content);
-      this.createFile(path, data);
-      return;
+  /**
+   * Adds a file with the specified content.
+   * @param path Path where the file should be created
+   * @param content Content of the file
+   * @param options.readonly Reject writes, truncation, unlink and rename of the file
+   */
+  addFile(path: string, content: FileContent, options: { readonly?: boolean } = {}): void {
+    const data = typeof content === "string" ? new TextEncoder().encode(content) : content;
+    const node = this.createFile(path, data);
+    if (options.readonly) node.readOnly = true;
+  }
+
+  /**
+   * Adds a file whose content is loaded on first use. Opening the file starts
+   * the loader and the first read waits for it; the content is then kept.
+   * Writes before the content is loaded are applied to it once it is, and the
+   * size reported until then is `size` updated by them.
+   * @param path Path where the file should be created
+   * @param loader Function returning the content of the file
+   * @param options.size Size reported until the content is loaded, 0 by default
+   * @param options.readonly Reject writes, truncation, unlink and rename of the file
+   */
+  addLazyFile(
+    path: string,
+    loader: () => FileContent | Promise<FileContent>,
+    options: { size?: number; readonly?: boolean } = {}
+  ): void {
+    const node = this.createFile(path, new Uint8Array(0));
+    node.loader = loader;
+    if (options.size !== undefined) node.sizeHint = options.size;
+    if (options.readonly) node.readOnly = true;
+    this.account(node);
+  }
+
+  /**
+   * Adds a file whose content is generated by a callback each time it is
+   * opened. Every descriptor reads the content generated when it was opened,
+   * and content written through a descriptor is passed to `write` when it is
+   * closed, once the content is generated. Content `read` returns synchronously
+   * is generated before the open returns, and like for lazy files, writes
+   * before asynchronous content arrives are applied to it. The size is that of
+   * the content generated or written last, as `stat` cannot wait for the callback.
+   *
+   * ```js
+   * fs.addDynamicFile("/proc/app/config.json", {
+   *   read: () => JSON.stringify(config),
+   *   write: (data) => Object.assign(config, JSON.parse(new TextDecoder().decode(data))),
+   * });
+   * ```
+   * @param path Path where the file should be created
+   * @param source Callbacks generating and receiving the content
+   * @param options.size Size reported until the content is first generated, 0 by default
+   */
+  addDynamicFile(path: string, source: DynamicFileSource, options: { size?: number } = {}): void {
+    const node = this.createFile(path, new Uint8Array(0));
+    node.source = source;
+    if (options.size !== undefined) node.sizeHint = options.size;
+    this.account(node);
+  }
+
+  /**
+   * Adds a character device that reads and writes through JavaScript callbacks,
+   * replacing any entry at the path.
+   *
+   * ```js
+   * fs.addDevice("/dev/audit", { write: (line) => log.push(line) });
+   * ```
+   * @param path Path where the device should be created
+   * @param options Callbacks of the device
+   */
+  addDevice(path: string, options: DeviceOptions): void {
+    this.setNode(path, { type: "character", kind: "custom", entry: new CallbackDevice(options) });
+  }
+
+  /**
+   * Creates a named pipe, replacing any entry at the path. Perl reads what
+   * JavaScript writes to it and the other way around. A read of an empty pipe
+   * waits for data, and the end of input comes once every writer that opened
+   * the pipe has closed it. Writes of JavaScript wait for readers when the pipe
+   * is full. Writes of Perl cannot wait, so they queue only what fits and fail
+   * with EAGAIN while the pipe is full, for Perl to retry once JavaScript has
+   * read from it. The pipe is a character device to Perl, as WASI has no file
+   * type for pipes.
+   *
+   * ```js
+   * const { writer } = fs.createPipe("/run/events");
+   * const running = perl.eval(`open my $fh, '<', '/run/events'; while (<$fh>) { ... }`);
+   * for (const event of events) await writer.write(JSON.stringify(event) + "\n");
+   * writer.close();
+   * await running;
+   * ```
+   * @param path Path where the pipe should be created
+   * @param options.capacity Number of bytes the pipe holds before writes wait or fail, 64 KiB by default
+   * @returns The JavaScript ends of the pipe
+   */
+  createPipe(path: string, options: { capacity?: number } = {}): { writer: PipeWriter; reader: PipeReader } {
+    const pipe = new Pipe(options.capacity ?? 64 * 1024);
+    this.setNode(path, { type: "character", kind: "pipe", pipe });
+
+    // The writer counts as an open write end from its first use until it is closed.
+    let state: "unused" | "open" | "closed" = "unused";
+    const encoder = new TextEncoder();
+    const writer: PipeWriter = {
+      write: (data) => {
+        if (state === "closed") {
+          return Promise.reject(new FileSystemError(WASIAbi.WASI_ERRNO_PIPE, "The pipe writer is closed"));
+        }
+        if (state === "unused") pipe.openWriter();
+        state = "open";
+        pipe.writev([typeof data === "string" ? encoder.encode(data) : data]);
+        return pipe.drained();
+      },
+      close: () => {
+        if (state === "closed") return;
+        if (state === "unused") pipe.openWriter();
+        state = "closed";
+        pipe.closeWriter();
+      },
+    };
+    const reader: PipeReader = {
+      read: () => pipe.read(),
+      async *[Symbol.asyncIterator]() {
+        for (let chunk = await pipe.read(); chunk; chunk = await pipe.read()) yield chunk;
+      },
+    };
+    return { writer, reader };
+  }
+
+  /**
+   * Creates a file system from a tar archive.
+   * @param bytes A ustar, pax or GNU tar archive, without compression
+   * @returns A file system with the contents of the archive at the root
+   * @throws {Error} If the archive is malformed
+   */
+  static fromTar(bytes: Uint8Array | ArrayBuffer): MemoryFileSystem {
+    const fs = new MemoryFileSystem();
+    fs.mountTar("/", bytes);
+    return fs;
+  }
+
+  /**
+   * Extracts a tar archive into a directory, replacing existing entries with the
+   * same names. Files without write permission in the archive are read-only.
+   * @param path Directory to extract to, created if missing
+   * @param bytes A ustar, pax or GNU tar archive, without compression
+   * @throws {Error} If the archive is malformed or has entries outside its root
+   */
+  mountTar(path: string, bytes: Uint8Array | ArrayBuffer): void {
+    const base = this.normalizePath(path);
+    this.ensureDir(base);
+    const target = (entryPath: string) => this.archivePath(base, entryPath);
+
+    for (const entry of readTar(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))) {
+      const entryPath = target(entry.path);
+      if (entryPath === base && entry.type !== "directory") continue;
+      let node: FSNode;
+      switch (entry.type) {
+        case "directory":
+          node = this.ensureDir(entryPath);
+          break;
+        case "file":
+          node = this.createFile(entryPath, entry.content?.slice() ?? new Uint8Array(0));
+          if (entry.mode !== undefined && (entry.mode & 0o200) === 0) node.readOnly = true;
+          break;
+        case "symlink":
+          node = { type: "symlink", target: entry.linkTarget ?? "" };
+          this.setNode(entryPath, node);
+          continue;
+        case "link":
+          this.removeFile(entryPath);
+          this.linkIn(this.root, target(entry.linkTarget ?? ""), false, this.root, entryPath);
+          continue;
+      }
+      node.mtim = msToNs(entry.mtime * 1000);
+    }
+  }
+
+  /**
+   * Mounts a zip archive as a read-only directory. Listing and metadata come from
+   * the central directory, and each entry is decompressed when first opened. The
+   * archive is kept, without copying, until then.
+   * @param path Directory to mount at, created if missing; it becomes read-only with everything below it
+   * @param bytes A zip archive with stored or deflate entries
+   * @throws {Error} If the archive is malformed, encrypted, ZIP64 or uses another compression method
+   */
+  mountZip(path: string, bytes: Uint8Array | ArrayBuffer): void {
+    const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    const base = this.normalizePath(path);
+    const entries = readZipDirectory(data);
+    this.ensureDir(base);
+
+    for (const entry of entries) {
+      const entryPath = this.archivePath(base, entry.path);
+      let node: FSNode;
+      if (entry.directory) {
+        node = this.ensureDir(entryPath);
+      } else {
+        if (entryPath === base) continue;
+        node = this.createFile(entryPath, new Uint8Array(0));
+        node.loader = () => extractZipEntry(data, entry);
+        node.sizeHint = entry.size;
+        this.account(node);
+      }
+      node.mtim = msToNs(entry.mtime);
+    }
+    this.setReadonly(base);
+  }
+
+  /**
+   * Creates a tar archive of a directory and everything below it. Files linked
+   * more than once are archived as hard links, and devices are left out.
+   * Lazy files are loaded first, and dynamic files generated.
+   * @param path Directory to archive, or a single file to archive under its name
+   * @returns A ustar archive, with pax headers where ustar is not enough
+   * @throws {FileSystemError} If the path does not exist or a lazy file fails to load
+   */
+  async toTar(path = "/"): Promise<Uint8Array> {
+    const node = this.lookup(path);
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+
+    const entries: TarEntry[] = [];
+    const archived = new Map<FSNode, string>();
+    const add = async (node: FSNode, entryPath: string): Promise<void> => {
+      const mtime = Number(getFileTimes(node).mtim / 1_000_000_000n);
+      const previous = archived.get(node);
+      if (previous !== undefined) {
+        entries.push({ path: entryPath, type: "link", linkTarget: previous, mtime });
+        return;
+      }
+      switch (node.type) {
+        case "dir": {
+          // Directories of devices only, such as /dev, are left out with the devices.
+          const children = Object.values(node.entries);
+          if (children.length > 0 && children.every((child) => child.type === "character")) break;
+          if (entryPath) {
+            entries.push({ path: entryPath, type: "directory", mode: node.readOnly ? 0o555 : 0o755, mtime });
+          }
+          for (const [name, child] of Object.entries(node.entries)) {
+            await add(child, entryPath ? `${entryPath}/${name}` : name);
+          }
+          break;
+        }
+        case "file": {
+          const file = openSnapshot(node);
+          await loadContent(file);
+          const content =
+            file.content instanceof Blob ? new Uint8Array(await file.content.arrayBuffer()) : file.content;
+          entries.push({ path: entryPath, type: "file", content, mode: node.readOnly ? 0o444 : 0o644, mtime });
+          if (this.nlinkOf(node) > 1n) archived.set(node, entryPath);
+          break;
+        }
+        case "symlink":
+          entries.push({ path: entryPath, type: "symlink", linkTarget: node.target, mode: 0o777, mtime });
+          break;
+      }
+    };
+    await add(node, node.type === "dir" ? "" : (this.normalizePath(path).split("/").pop() ?? ""));
+    return writeTar(entries);
+  }
+
+  /**
+   * Marks a file, or a directory and everything below it, as read-only.
+   * Marking a preopened directory makes the whole preopen read-only.
+   * @param path Path of the file or directory
+   * @param readonly Whether the node is read-only
+   * @throws {FileSystemError} If the path does not exist or is not a file or directory
+   */
+  setReadonly(path: string, readonly = true): void {
+    const node = this.lookup(path);
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+    if (node.type !== "file" && node.type !== "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `"${path}" is not a file or directory`);
+    }
+    if (readonly) {
+      node.readOnly = true;
+    } else {
+      delete node.readOnly;
     }
-    this.createFile(path, content);
+  }
+
+  /**
+   * Checks that the node at a path may be modified.
+   * @param dir Starting directory
+   * @param relativePath Path relative to the directory
+   * @param options.followSymlinks Whether a symbolic link in the last component is followed, defaults to true
+   * @throws {FileSystemError} EACCES for a read-only file, EROFS for a node in a read-only directory
+   */
+  assertWritable(
+    dir: DirectoryNode,
+    relativePath: string,
+    options: { followSymlinks?: boolean } = {}
+  ): void {
+    const normalizedPath = this.normalizePath(relativePath).slice(1);
+    const resolved = this.walk([dir], normalizedPath, options.followSymlinks ?? true);
+    if (resolved) this.assertWritableAt(resolved.chain, resolved.node);
   }
 
   /**
@@ -295,737 +1490,3488 @@ export class MemoryFileSystem {
    * @returns The created file node
    */
   createFile(path: string, content: Uint8Array | Blob): FileNode {
-    const fileNode: FileNode = { type: "file", content };
+    const fileNode: FileNode = { type: "file", content, ...currentTimes() };
+    // A `File` keeps its own modification time.
+    if (content instanceof Blob && "lastModified" in content) {
+      fileNode.mtim = BigInt((content as File).lastModified) * 1_000_000n;
+    }
     this.setNode(path, fileNode);
     return fileNode;
   }
 
   /**
-   * Sets a node at the specified path.
-   * @param path Path where the node should be set
-   * @param node The node to set
+   * Creates a directory.
+   * @param path Path of the directory to create
+   * @param options.recursive Create missing parent directories, and do not fail if the directory already exists
+   * @throws {FileSystemError} If the directory or a parent cannot be created
    */
-  setNode(path: string, node: FSNode): void {
-    const normalizedPath = this.normalizePath(path);
-    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
-
-    if (parts.length === 0) {
-      if (node.type !== "dir") {
-        throw new Error("Root must be a directory");
-      }
-      this.root = node;
-      return;
+  mkdir(path: string, options: { recursive?: boolean } = {}): void {
+    if (options.recursive) {
+      this.ensureDir(path);
+    } else {
+      this.createDirectoryIn(this.root, path);
     }
+  }
 
-    const fileName = parts.pop();
-    const dirPath = `/${parts.join("/")}`;
-    const dir = this.ensureDir(dirPath);
-    if (fileName) {
-      dir.entries[fileName] = node;
+  /**
+   * Removes an empty directory.
+   * @param path Path of the directory to remove
+   * @throws {FileSystemError} If the path is not an empty directory
+   */
+  rmdir(path: string): void {
+    this.removeDirectoryIn(this.root, path);
+  }
+
+  /**
+   * Creates a symbolic link.
+   * @param target Path the link points to, stored as given
+   * @param path Path of the link to create
+   * @throws {FileSystemError} If the path already exists or its parent is missing
+   */
+  symlink(target: string, path: string): void {
+    this.symlinkIn(this.root, path, target);
+  }
+
+  /**
+   * Creates a hard link, a second directory entry for an existing file.
+   * @param existingPath Path of the existing file
+   * @param newPath Path of the link to create
+   * @throws {FileSystemError} If the existing path is missing or a directory, or the new path exists
+   */
+  link(existingPath: string, newPath: string): void {
+    this.linkIn(this.root, existingPath, false, this.root, newPath);
+  }
+
+  /**
+   * Reads the target of a symbolic link.
+   * @param path Path of the link
+   * @returns The target the link points to
+   * @throws {FileSystemError} If the path is missing or not a symbolic link
+   */
+  readlink(path: string): string {
+    return this.readlinkIn(this.root, path);
+  }
+
+  /**
+   * Reads the whole content of a file, waiting for a lazy file to load.
+   * @param path Path of the file
+   * @param encoding "utf8" for a string, or "bytes" for a copy of the content, the default
+   * @throws {FileSystemError} If the path is not a file or a lazy file fails to load
+   */
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  readFile(path: string, encoding?: "bytes"): Promise<Uint8Array>;
+  async readFile(path: string, encoding: "utf8" | "bytes" = "bytes"): Promise<string | Uint8Array> {
+    const node = this.lookup(path);
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
     }
+    if (node.type === "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${path}" is a directory`);
+    }
+    if (node.type !== "file") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `"${path}" is not a file`);
+    }
+    const file = openSnapshot(node);
+    await loadContent(file);
+    this.account(file);
+    const content =
+      file.content instanceof Blob ? new Uint8Array(await file.content.arrayBuffer()) : file.content.slice();
+    markAccessed(node);
+    return encoding === "utf8" ? new TextDecoder().decode(content) : content;
   }
 
   /**
-   * Gets the /dev/null special device.
-   * @returns The /dev/null node
+   * Writes a file, replacing its content. Unlike `addFile`, this writes through
+   * symbolic links and hard links and respects read-only files and directories.
+   * Missing parent directories are created. The content is copied, except for
+   * Blobs, which are immutable.
+   * @throws {FileSystemError} If the path is a directory, a dynamic file or cannot be written
    */
-  getDevNull(): FSNode {
-    const node = this.lookup("/dev/null");
-    if (!node) throw new Error("/dev/null not found");
-    return node;
+  writeFile(path: string, content: FileContent): void {
+    const node = this.writableFileAt(path);
+    this.assertNotDynamic(node, path);
+    const data =
+      typeof content === "string"
+        ? new TextEncoder().encode(content)
+        : content instanceof Blob
+          ? content
+          : content.slice();
+    this.assertCanGrow(node, data instanceof Blob ? data.size : data.byteLength);
+    node.content = data;
+    discardLoader(node);
+    this.account(node);
+    markModified(node);
+    this.notifyModified(path);
   }
 
   /**
-   * Gets the list of pre-opened paths.
-   * @returns Array of pre-opened paths
+   * Appends to a file, creating it if missing. A lazy file is loaded first.
+   * @throws {FileSystemError} If the path is a directory, a dynamic file or cannot be written
    */
-  getPreopenPaths(): string[] {
-    return [...this.preopenPaths];
+  async appendFile(path: string, content: string | Uint8Array): Promise<void> {
+    const node = this.writableFileAt(path);
+    this.assertNotDynamic(node, path);
+    await loadContent(node);
+    if (node.content instanceof Blob) node.content = new Uint8Array(await node.content.arrayBuffer());
+    const data = typeof content === "string" ? new TextEncoder().encode(content) : content;
+    const size = getFileSize(node);
+    this.assertCanGrow(node, size + data.byteLength);
+    writeFileAt(node, [data], size);
+    this.account(node);
+    this.notifyModified(path);
   }
 
   /**
-   * Looks up a node at the specified path.
-   * @param path Path to look up
-   * @returns The node at the path, or null if not found
+   * Checks whether a path exists, following symbolic links.
+   */
+  exists(path: string): boolean {
+    try {
+      return this.lookup(path) !== null;
+    } catch (error) {
+      if (error instanceof FileSystemError) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a file, symbolic link, device or directory.
+   * @param options.recursive Remove a directory with everything below it
+   * @param options.force Do not fail if the path does not exist
+   * @throws {FileSystemError} If the path is missing, a directory without `recursive`, or read-only
    */
-  lookup(path: string): FSNode | null {
+  rm(path: string, options: { recursive?: boolean; force?: boolean } = {}): void {
+    const node = this.lookup(path, { followSymlinks: false });
+    if (!node) {
+      if (options.force) return;
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+    if (node.type !== "dir") {
+      this.unlinkIn(this.root, path);
+      return;
+    }
+    if (!options.recursive) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${path}" is a directory`);
+    }
     const normalizedPath = this.normalizePath(path);
-    if (normalizedPath === "/") return this.root;
+    if (normalizedPath === "/") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_BUSY, "Cannot remove the root directory");
+    }
+    for (const name of Object.keys(node.entries)) {
+      this.rm(`${normalizedPath}/${name}`, { recursive: true });
+    }
+    this.removeDirectoryIn(this.root, path);
+  }
 
-    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
-    let current: FSNode | undefined = this.root;
+  /**
+   * Copies a file, or a directory and everything below it, replacing existing
+   * files at the destination. Symbolic links below a copied directory are
+   * copied as links, lazy files stay lazy and devices are left out.
+   * @throws {FileSystemError} If the source is missing or the destination cannot be written
+   */
+  copy(source: string, destination: string): void {
+    const node = this.lookup(source);
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${source}" does not exist`);
+    }
+    const from = this.normalizePath(source);
+    const to = this.normalizePath(destination);
+    if (node.type === "dir" && (to === from || to.startsWith(from === "/" ? "/" : `${from}/`))) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `Cannot copy "${source}" into itself`);
+    }
+    this.copyNode(node, to);
+  }
 
-    for (const part of parts) {
-      if (current.type !== "dir") return null;
-      current = current.entries[part];
-      if (!current) return null;
+  /**
+   * Finds the paths matching a glob pattern. `*` and `?` match within a path
+   * component, `**` matches any number of components, and `[...]` and `{a,b}`
+   * match a set of characters or alternatives. Relative patterns start at the root.
+   * @returns The matching absolute paths
+   */
+  glob(pattern: string): string[] {
+    const normalizedPattern = this.normalizePath(pattern);
+    const parts = normalizedPattern.split("/").filter((p) => p.length > 0);
+    const first = parts.findIndex((part) => /[*?[{]/.test(part));
+    if (first === -1) {
+      return this.lookup(normalizedPattern, { followSymlinks: false }) ? [normalizedPattern] : [];
     }
 
-    return current;
+    const base = `/${parts.slice(0, first).join("/")}`;
+    if (this.lookup(base)?.type !== "dir") return [];
+    const regex = globToRegExp(normalizedPattern);
+    return this.readdir(base, { recursive: true })
+      .map((name) => (base === "/" ? `/${name}` : `${base}/${name}`))
+      .filter((path) => regex.test(path));
   }
 
   /**
-   * Resolves a relative path from a directory.
-   * @param dir Starting directory
-   * @param relativePath Relative path to resolve
-   * @returns The resolved node, or null if not found
+   * Reports the space used by the file system.
    */
-  resolve(dir: DirectoryNode, relativePath: string): FSNode | null {
-    const normalizedPath = this.normalizePath(relativePath);
-    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
-    let current: FSNode | undefined = dir;
+  usage(): FileSystemUsage {
+    return { ...this.used, limits: { ...this.limits } };
+  }
 
-    for (const part of parts) {
-      if (part === ".") continue;
-      if (part === "..") {
-        current = this.root; // jump to root
-        continue;
-      }
-      if (current.type !== "dir") return null;
-      current = current.entries[part];
-      if (!current) return null;
+  /**
+   * Checks that a file may grow to a size within the limits. Shrinking is always allowed.
+   * @throws {FileSystemError} EFBIG above `maxFileSize`, ENOSPC above `maxBytes`
+   */
+  assertCanGrow(node: FileNode, size: number): void {
+    const growth = size - getFileSize(node);
+    if (growth <= 0) return;
+    const { maxFileSize, maxBytes } = this.limits;
+    if (maxFileSize !== undefined && size > maxFileSize) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_FBIG, "File size limit exceeded");
+    }
+    if (maxBytes !== undefined && this.used.bytes + growth > maxBytes) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOSPC, "No space left on device");
     }
+  }
 
-    return current;
+  /**
+   * Watches a file or directory for changes made through the file system, such
+   * as files written by Perl. Writes through a file descriptor are reported as
+   * one "modify" event when it is closed; nodes added with `addFile`, `setNode`
+   * and the archive methods are not reported.
+   * @param path Path of the file, or of the directory to watch everything below
+   * @param listener Called synchronously with each change
+   * @returns A function that stops watching
+   */
+  watch(path: string, listener: (event: FileSystemEvent) => void): () => void {
+    const watcher = { path: this.normalizePath(path), listener };
+    this.watchers.push(watcher);
+    return () => {
+      this.watchers = this.watchers.filter((w) => w !== watcher);
+    };
   }
 
   /**
-   * Ensures a directory exists at the specified path, creating it if necessary.
-   * @param path Path to the directory
-   * @returns The directory node
+   * Reports a change of the content of a file to watchers. Called by file
+   * system providers when a descriptor the file was written through is closed.
+   * @param path Path of the file, which may lead through symbolic links
    */
-  ensureDir(path: string): DirectoryNode {
-    const normalizedPath = this.normalizePath(path);
-    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
-    let current: DirectoryNode = this.root;
+  notifyModified(path: string): void {
+    if (this.watchers.length === 0) return;
+    const realPath = this.realPath(path);
+    if (realPath) this.notify({ type: "modify", path: realPath });
+  }
 
-    for (const part of parts) {
-      if (!current.entries[part]) {
-        current.entries[part] = { type: "dir", entries: {} };
+  /**
+   * Restores the nodes saved in a persistence adapter, replacing entries at
+   * the same paths, then saves the changes reported to `watch` to it. Nodes
+   * added before, devices and dynamic files are not saved, and hard links are
+   * not saved as such: a file linked twice is saved as two files.
+   *
+   * ```js
+   * const fs = new MemoryFileSystem();
+   * await fs.persist(new SnapshotAdapter(), { flush: "write-through" });
+   * ```
+   * @param adapter Storage to restore from and save to
+   * @param options When to save, and where failures of background saves go
+   * @throws {Error} If the file system is already persisted, or the adapter fails
+   */
+  async persist(adapter: PersistenceAdapter, options: PersistenceOptions = {}): Promise<void> {
+    if (this.persistence) {
+      throw new Error("The file system is already persisted");
+    }
+    const saved = new Set<string>();
+    // Sorted paths restore parents before their children.
+    for (const path of (await adapter.list()).sort()) {
+      const node = await adapter.get(path);
+      if (!node) continue;
+      this.restoreNode(path, node);
+      saved.add(path);
+    }
+
+    const persistence = {
+      adapter,
+      options,
+      pending: new Set<string>(),
+      saved,
+      queue: Promise.resolve(),
+      failure: null,
+    };
+    this.persistence = persistence;
+    this.watch("/", (event) => {
+      persistence.pending.add(event.path);
+      if (event.oldPath !== undefined) persistence.pending.add(event.oldPath);
+      if (options.flush === "write-through") this.scheduleFlush();
+    });
+  }
+
+  /**
+   * Saves the changes made since the last save to the persistence adapter.
+   * Saves run one at a time, in the order they were requested.
+   * @throws {Error} If the adapter fails, in which case the changes are kept for the next save,
+   * or with the error of a failed background save not reported to `onError`, without saving
+   */
+  flush(): Promise<void> {
+    const persistence = this.persistence;
+    if (!persistence) return Promise.resolve();
+    const save = persistence.queue.then(() => {
+      const { failure } = persistence;
+      if (failure) {
+        persistence.failure = null;
+        throw failure.error;
       }
+      return this.savePending(persistence);
+    });
+    persistence.queue = save.catch(() => {});
+    return save;
+  }
 
-      const next = current.entries[part];
-      if (next.type !== "dir") {
-        throw new Error(`"${part}" is not a directory`);
+  /**
+   * Saves pending changes to the persistence adapter in the background. Called
+   * by file system providers when a file is synced, with the file so that
+   * writes through a descriptor that is still open are saved too, and when a
+   * written file is closed.
+   * @param path Path of the synced file, which may lead through symbolic links
+   */
+  scheduleFlush(path?: string): void {
+    const persistence = this.persistence;
+    if (!persistence) return;
+    const realPath = path ? this.realPath(path) : null;
+    if (realPath) persistence.pending.add(realPath);
+    // Failures are recorded before the next save starts, so that a `flush` queued after this save sees them.
+    persistence.queue = persistence.queue
+      .then(() => this.savePending(persistence))
+      .catch((error) => {
+        if (persistence.options.onError) {
+          persistence.options.onError(error);
+        } else {
+          persistence.failure = { error };
+        }
+      });
+  }
+
+  private async savePending(persistence: NonNullable<MemoryFileSystem["persistence"]>): Promise<void> {
+    const paths = [...persistence.pending].sort();
+    persistence.pending.clear();
+    try {
+      for (const path of paths) await this.savePath(persistence, path);
+    } catch (error) {
+      for (const path of paths) persistence.pending.add(path);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves the node at a path with everything below it, and removes saved
+   * nodes there that no longer exist.
+   */
+  private async savePath(persistence: NonNullable<MemoryFileSystem["persistence"]>, path: string): Promise<void> {
+    const { adapter, saved } = persistence;
+    const nodes = new Map<string, Exclude<FSNode, CharacterDeviceNode>>();
+    const visit = (node: FSNode, nodePath: string): void => {
+      // Dynamic files stand for state of the host, which keeps it.
+      if (node.type === "character" || (node.type === "file" && node.source)) return;
+      nodes.set(nodePath, node);
+      if (node.type !== "dir") return;
+      for (const [name, child] of Object.entries(node.entries)) visit(child, `${nodePath}/${name}`);
+    };
+    let node: FSNode | null = null;
+    try {
+      node = this.lookup(path, { followSymlinks: false });
+    } catch (error) {
+      toErrno(error);
+    }
+    if (node) visit(node, path);
+
+    // Children are removed before their parents, which sort first.
+    const stale = [...saved].filter((p) => (p === path || p.startsWith(`${path}/`)) && !nodes.has(p));
+    for (const stalePath of stale.sort().reverse()) {
+      await adapter.delete(stalePath);
+      saved.delete(stalePath);
+    }
+    for (const [nodePath, child] of nodes) {
+      await adapter.put(nodePath, await this.persistedNode(child));
+      saved.add(nodePath);
+    }
+  }
+
+  private async persistedNode(node: Exclude<FSNode, CharacterDeviceNode>): Promise<PersistedNode> {
+    const mtime = Number(getFileTimes(node).mtim / 1_000_000n);
+    switch (node.type) {
+      case "dir":
+        return { type: "directory", readonly: !!node.readOnly, mtime };
+      case "symlink":
+        return { type: "symlink", target: node.target, mtime };
+      case "file": {
+        await loadContent(node);
+        // A copy, as later writes change the content in place.
+        const content =
+          node.content instanceof Blob ? new Uint8Array(await node.content.arrayBuffer()) : node.content.slice();
+        return { type: "file", content, readonly: !!node.readOnly, mtime };
       }
+    }
+  }
 
-      current = next;
+  private restoreNode(path: string, saved: PersistedNode): void {
+    const mtim = msToNs(saved.mtime);
+    const existing = this.lookup(path, { followSymlinks: false });
+    switch (saved.type) {
+      case "directory": {
+        const dir: DirectoryNode =
+          existing?.type === "dir" ? existing : { type: "dir", entries: {}, ...currentTimes() };
+        dir.mtim = mtim;
+        if (saved.readonly) dir.readOnly = true;
+        this.setNode(path, dir);
+        break;
+      }
+      case "file":
+        this.setNode(path, {
+          type: "file",
+          // A copy, as the adapter may keep the array and writes change the content in place.
+          content: saved.content?.slice() ?? new Uint8Array(0),
+          readOnly: saved.readonly || undefined,
+          ...currentTimes(),
+          mtim,
+        });
+        break;
+      case "symlink":
+        this.setNode(path, { type: "symlink", target: saved.target ?? "" });
+        break;
     }
+  }
 
-    return current;
+  /**
+   * Gets the metadata of a node.
+   * @param options.followSymlinks Whether a symbolic link in the last component is followed, defaults to false
+   * @throws {FileSystemError} If the path does not exist
+   */
+  stat(path: string, options: { followSymlinks?: boolean } = {}): FileInfo {
+    const resolved = this.walk([this.root], this.normalizePath(path), options.followSymlinks ?? false);
+    if (!resolved) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+    const { node, chain } = resolved;
+    const stat = this.statNode(node);
+    return {
+      ...stat,
+      type: typeOf(node),
+      readonly: this.inReadOnlyTree(chain) || (node.type === "file" && !!node.readOnly),
+      atime: new Date(Number(stat.atim / 1_000_000n)),
+      mtime: new Date(Number(stat.mtim / 1_000_000n)),
+      ctime: new Date(Number(stat.ctim / 1_000_000n)),
+    };
+  }
+
+  fstat(handle: number): FileStat {
+    return this.statNode(this.getHandle(handle));
   }
 
   /**
-   * Creates a file in a directory.
-   * @param dir Parent directory
-   * @param relativePath Path relative to the directory
-   * @returns The created file node
+   * Opens a file or device, for use with the other `FileSystemBackend` methods.
+   * @throws {FileSystemError} If the file cannot be opened
    */
-  createFileIn(dir: DirectoryNode, relativePath: string): FileNode {
-    const normalizedPath = this.normalizePath(relativePath);
-    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
+  open(
+    path: string,
+    options: { read?: boolean; write?: boolean; create?: boolean; exclusive?: boolean; truncate?: boolean }
+  ): number {
+    let node = this.lookup(path);
+    const existing = node !== null;
+    if (node && options.exclusive) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${path}" already exists`);
+    }
+    if (!node) {
+      if (!options.create) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+      }
+      node = this.createFileIn(this.root, path);
+    }
+    if (node.type === "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${path}" is a directory`);
+    }
+    if (node.type === "symlink") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_LOOP, `"${path}" is a symbolic link`);
+    }
+    if (node.type === "file" && (options.write || options.truncate)) {
+      this.assertWritable(this.root, path);
+      materializeBlob(node);
+    }
+    node = openSnapshot(node);
+    if (node.type === "file" && options.truncate) {
+      discardLoader(node);
+      node.content = new Uint8Array(0);
+      markModified(node);
+    }
+    preloadContent(node);
+    if (node.type === "file") this.account(node);
+
+    const handle = this.nextHandle++;
+    this.handles.set(handle, node);
+    const parent = this.walk([this.root], this.normalizePath(path), true)?.chain;
+    if (parent?.length) this.handleParents.set(handle, parent[parent.length - 1] as DirectoryNode);
+    if (node.type === "character" && node.kind === "pipe" && options.write) {
+      node.pipe.openWriter();
+      this.pipeWriterHandles.add(handle);
+    }
+    if (existing && node.type === "file" && options.truncate) this.modifiedHandles.add(handle);
+    return handle;
+  }
 
-    if (parts.length === 0) {
-      throw new Error("Cannot create a file with an empty name");
+  close(handle: number): void {
+    const node = this.getHandle(handle);
+    const path = this.handlePath(handle);
+    this.handles.delete(handle);
+    this.handleParents.delete(handle);
+    if (this.pipeWriterHandles.delete(handle) && node.type === "character" && node.kind === "pipe") {
+      node.pipe.closeWriter();
+    }
+    let failure: FileSystemError | null = null;
+    if (this.modifiedHandles.delete(handle)) {
+      failure = commitSnapshot(node);
+      if (node.type === "file") this.account(node);
+      if (path) this.notifyModified(path);
+      this.scheduleFlush();
     }
+    if (node.type === "file" && this.orphans.has(node) && ![...this.handles.values()].includes(node)) {
+      this.release(node);
+    }
+    // The handle is closed even when the content could not be delivered.
+    if (failure) throw failure;
+  }
 
-    const fileName = parts.pop();
-    if (!fileName) {
-      throw new Error("Cannot create a file with an empty name");
+  read(handle: number, buffers: Uint8Array[], position: number): number | Promise<number> {
+    const node = this.getHandle(handle);
+    if (node.type === "character") {
+      return node.kind === "pipe" ? node.pipe.readv(buffers) : deviceEntry(node).readv(buffers);
     }
-    let current = dir;
+    if (node.type !== "file") return 0;
+    const bytesRead = readFileAt(node, buffers, position);
+    if (!(bytesRead instanceof Promise)) return bytesRead;
+    // Loading a lazy file may change its size.
+    return bytesRead.then((count) => {
+      this.account(node);
+      return count;
+    });
+  }
 
-    for (const part of parts) {
-      if (!current.entries[part]) {
-        current.entries[part] = { type: "dir", entries: {} };
-      }
+  write(handle: number, buffers: Uint8Array[], position: number): number {
+    return this.writeHandle(handle, buffers, position);
+  }
 
-      const next = current.entries[part];
-      if (next.type !== "dir") {
-        throw new Error(`"${part}" is not a directory`);
+  /**
+   * Writes buffers to the end of an open file, which for a lazy file that is
+   * not loaded yet is the end of its loaded content.
+   * @returns The number of bytes written
+   */
+  append(handle: number, buffers: Uint8Array[]): number {
+    return this.writeHandle(handle, buffers, null);
+  }
+
+  truncate(handle: number, size: number): void {
+    const node = this.getHandle(handle);
+    if (node.type !== "file") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, "Not a regular file");
+    }
+    this.assertCanGrow(node, size);
+    const errno = resizeFile(node, BigInt(size), true);
+    if (errno !== WASIAbi.WASI_ESUCCESS) throw new FileSystemError(errno, "Cannot resize file");
+    this.account(node);
+    this.modifiedHandles.add(handle);
+  }
+
+  /**
+   * Sets the access and modification times of a node, without following a
+   * symbolic link in the last component.
+   */
+  setTimes(path: string, atim: bigint, mtim: bigint): void {
+    const node = this.lookup(path, { followSymlinks: false });
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+    this.assertWritable(this.root, path, { followSymlinks: false });
+    this.setNodeTimes(node, atim, mtim);
+  }
+
+  fsetTimes(handle: number, atim: bigint, mtim: bigint): void {
+    this.setNodeTimes(this.getHandle(handle), atim, mtim);
+  }
+
+  /**
+   * Lists the names of the entries of a directory.
+   * @param options.recursive List everything below the directory, as paths relative to it
+   * @throws {FileSystemError} If the path is not a directory
+   */
+  readdir(path: string, options: { recursive?: boolean } = {}): string[] {
+    const node = this.lookup(path);
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+    if (node.type !== "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${path}" is not a directory`);
+    }
+    if (!options.recursive) return Object.keys(node.entries);
+
+    // Symbolic links to directories are listed but not descended into.
+    const names: string[] = [];
+    const visit = (dir: DirectoryNode, prefix: string) => {
+      for (const [name, child] of Object.entries(dir.entries)) {
+        names.push(`${prefix}${name}`);
+        if (child.type === "dir") visit(child, `${prefix}${name}/`);
+      }
+    };
+    visit(node, "");
+    return names;
+  }
+
+  /**
+   * Removes a file, symbolic link or device.
+   * @throws {FileSystemError} If the path is missing or a directory
+   */
+  unlink(path: string): void {
+    this.unlinkIn(this.root, path);
+  }
+
+  /**
+   * Moves an entry to a new location, replacing an existing entry at the destination.
+   * @throws {FileSystemError} If the source is missing or cannot replace the destination
+   */
+  rename(oldPath: string, newPath: string): void {
+    this.renameIn(this.root, oldPath, this.root, newPath);
+  }
+
+  sync(handle: number): void {
+    this.getHandle(handle);
+    this.scheduleFlush(this.handlePath(handle) ?? undefined);
+  }
+
+  datasync(handle: number): void {
+    this.sync(handle);
+  }
+
+  standardStream(handle: number): "stdin" | "stdout" | "stderr" | "tty" | null {
+    const node = this.getHandle(handle);
+    return node.type === "character" && node.kind === "console" ? node.stream : null;
+  }
+
+  /**
+   * Gets the file at a path for writing, creating it if missing.
+   * @throws {FileSystemError} If the path is a directory or cannot be written
+   */
+  private writableFileAt(path: string): FileNode {
+    const node = this.lookup(path);
+    if (!node) return this.createFileIn(this.root, path);
+    if (node.type === "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${path}" is a directory`);
+    }
+    if (node.type !== "file") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `"${path}" is not a file`);
+    }
+    this.assertWritable(this.root, path);
+    return node;
+  }
+
+  /**
+   * Rejects writing a dynamic file through the file API. Its content is
+   * generated for each descriptor, and only descriptors pass it to `write`.
+   * @throws {FileSystemError} EINVAL for a dynamic file
+   */
+  private assertNotDynamic(node: FileNode, path: string): void {
+    if (node.source) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `"${path}" is a dynamic file`);
+    }
+  }
+
+  private copyNode(node: FSNode, destination: string): void {
+    switch (node.type) {
+      case "dir": {
+        const existing = this.lookup(destination);
+        if (!existing) {
+          this.createDirectoryIn(this.root, destination);
+        } else if (existing.type !== "dir") {
+          throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${destination}" is not a directory`);
+        }
+        for (const [name, child] of Object.entries(node.entries)) {
+          this.copyNode(child, destination === "/" ? `/${name}` : `${destination}/${name}`);
+        }
+        break;
+      }
+      case "file": {
+        const file = this.writableFileAt(destination);
+        if (file === node) return;
+        this.assertCanGrow(file, getFileSize(node));
+        file.content = node.content instanceof Blob ? node.content : node.content.slice();
+        discardLoader(file);
+        if (node.loader) file.loader = node.loader;
+        if (node.source) file.source = node.source;
+        if (node.sizeHint !== undefined) file.sizeHint = node.sizeHint;
+        this.account(file);
+        markModified(file);
+        this.notifyModified(destination);
+        break;
+      }
+      case "symlink":
+        this.symlinkIn(this.root, destination, node.target);
+        break;
+    }
+  }
+
+  /**
+   * Checks that one more node may be created within the limits.
+   * @throws {FileSystemError} EDQUOT at `maxNodes`
+   */
+  private assertCanCreate(): void {
+    const { maxNodes } = this.limits;
+    if (maxNodes !== undefined && this.used.nodes >= maxNodes) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_DQUOT, "Node limit exceeded");
+    }
+  }
+
+  /**
+   * Reports a change of a directory entry to watchers.
+   * @param oldParent Directory the entry was renamed from, for "rename"
+   * @param oldName Name the entry was renamed from, for "rename"
+   */
+  private notifyEntry(
+    type: FileSystemEvent["type"],
+    parent: DirectoryNode,
+    name: string,
+    oldParent?: DirectoryNode,
+    oldName?: string
+  ): void {
+    if (this.watchers.length === 0) return;
+    const dirPath = this.pathOf(parent);
+    // Entries of a removed directory are not in the tree any more.
+    if (dirPath === null) return;
+    const path = dirPath === "/" ? `/${name}` : `${dirPath}/${name}`;
+    if (!oldParent || oldName === undefined) {
+      this.notify({ type, path });
+      return;
+    }
+    const oldDirPath = this.pathOf(oldParent);
+    if (oldDirPath === null) {
+      this.notify({ type: "create", path });
+      return;
+    }
+    const oldPath = oldDirPath === "/" ? `/${oldName}` : `${oldDirPath}/${oldName}`;
+    this.notify({ type, path, oldPath });
+  }
+
+  private notify(event: FileSystemEvent): void {
+    const within = (path: string, watched: string) =>
+      watched === "/" || path === watched || path.startsWith(`${watched}/`);
+    for (const { path, listener } of this.watchers) {
+      if (within(event.path, path) || (event.oldPath !== undefined && within(event.oldPath, path))) {
+        try {
+          listener(event);
+        } catch (error) {
+          // A failing listener must not fail the system call that caused the event, nor crash the host.
+          console.error(error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Finds the path of a directory in the tree from the parents of the directories above it.
+   * @returns The absolute path, or null if the directory is not in the tree
+   */
+  private pathOf(dir: DirectoryNode): string | null {
+    const chain = this.pathTo(dir);
+    if (!chain) return null;
+    const names = chain.slice(1).map((entry) => this.parents.get(entry)?.name);
+    return `/${names.join("/")}`;
+  }
+
+  /**
+   * Finds the path of an entry of a directory, the first one for a file with several links there.
+   * @returns The absolute path, or null if the entry or the directory is not in the tree
+   */
+  private entryPath(parent: DirectoryNode, node: FSNode): string | null {
+    const dirPath = this.pathOf(parent);
+    if (dirPath === null) return null;
+    for (const name in parent.entries) {
+      if (parent.entries[name] === node) return dirPath === "/" ? `/${name}` : `${dirPath}/${name}`;
+    }
+    return null;
+  }
+
+  /**
+   * Resolves a path to the path of the node it names, through symbolic links.
+   * @returns The absolute path, or null if nothing is there
+   */
+  private realPath(path: string): string | null {
+    const found = this.walk([this.root], this.normalizePath(path), true);
+    if (!found) return null;
+    if (found.node.type === "dir") return this.pathOf(found.node);
+    const parent = found.chain[found.chain.length - 1];
+    return parent ? this.entryPath(parent, found.node) : null;
+  }
+
+  private writeHandle(handle: number, buffers: Uint8Array[], position: number | null): number {
+    const node = this.getHandle(handle);
+    if (node.type === "character") {
+      return node.kind === "pipe" ? node.pipe.writeAvailable(buffers) : deviceEntry(node).writev(buffers);
+    }
+    if (node.type !== "file") return buffers.reduce((total, buf) => total + buf.byteLength, 0);
+    const end = (position ?? getFileSize(node)) + buffers.reduce((total, buf) => total + buf.byteLength, 0);
+    this.assertCanGrow(node, end);
+    this.modifiedHandles.add(handle);
+    const bytesWritten = writeFileAt(node, buffers, position);
+    this.account(node);
+    return bytesWritten;
+  }
+
+  /**
+   * Finds the current path of the file of a handle.
+   * @returns The absolute path, or null if the file was removed
+   */
+  private handlePath(handle: number): string | null {
+    const node = this.handles.get(handle);
+    const parent = this.handleParents.get(handle);
+    if (!node || !parent) return null;
+    return this.entryPath(parent, node.type === "file" && node.snapshotOf ? node.snapshotOf : node);
+  }
+
+  private getHandle(handle: number): FileNode | CharacterDeviceNode {
+    const node = this.handles.get(handle);
+    if (!node) throw new FileSystemError(WASIAbi.WASI_ERRNO_BADF, `Bad handle ${handle}`);
+    return node;
+  }
+
+  private statNode(node: FSNode): FileStat {
+    let size = 0;
+    if (node.type === "file") size = getFileSize(node);
+    if (node.type === "symlink") size = new TextEncoder().encode(node.target).byteLength;
+    return {
+      filetype: getFileType(node),
+      ino: this.inodeOf(node),
+      nlink: this.nlinkOf(node),
+      size: BigInt(size),
+      ...getFileTimes(node),
+    };
+  }
+
+  private setNodeTimes(node: FSNode, atim: bigint, mtim: bigint): void {
+    // Devices have no timestamps to update.
+    if (node.type !== "file" && node.type !== "dir") return;
+    node.atim = atim;
+    node.mtim = mtim;
+    node.ctim = realtimeNow();
+  }
+
+  /**
+   * Sets a node at the specified path.
+   * @param path Path where the node should be set
+   * @param node The node to set
+   */
+  setNode(path: string, node: FSNode): void {
+    const normalizedPath = this.normalizePath(path);
+    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
+
+    if (parts.length === 0) {
+      if (node.type !== "dir") {
+        throw new Error("Root must be a directory");
+      }
+      for (const child of Object.values(this.root.entries)) this.dropLink(child);
+      this.root = node;
+      for (const [name, child] of Object.entries(node.entries)) this.addEntry(node, name, child);
+      return;
+    }
+
+    const fileName = parts.pop();
+    const dirPath = `/${parts.join("/")}`;
+    const dir = this.ensureDir(dirPath);
+    if (fileName) {
+      this.addEntry(dir, fileName, node);
+    }
+  }
+
+  /**
+   * Gets the /dev/null special device.
+   * @returns The /dev/null node
+   */
+  getDevNull(): FSNode {
+    const node = this.lookup("/dev/null");
+    if (!node) throw new Error("/dev/null not found");
+    return node;
+  }
+
+  /**
+   * Gets the list of pre-opened paths.
+   * @returns Array of pre-opened paths
+   */
+  getPreopenPaths(): string[] {
+    return [...this.preopenPaths];
+  }
+
+  /**
+   * Gets the number of directory entries referring to a node.
+   * @param node The node to count the links of
+   * @returns The link count of the node
+   */
+  nlinkOf(node: FSNode): bigint {
+    return BigInt(1 + (this.extraLinks.get(node) ?? 0));
+  }
+
+  /**
+   * Gets the inode number of a node, assigning a new one on first use.
+   * @param node The node to get the inode number of
+   * @returns The inode number of the node
+   */
+  inodeOf(node: FSNode): bigint {
+    let ino = this.inodes.get(node);
+    if (ino === undefined) {
+      ino = this.nextInode++;
+      this.inodes.set(node, ino);
+    }
+    return ino;
+  }
+
+  /**
+   * Looks up a node at the specified path.
+   * @param path Path to look up
+   * @param options.followSymlinks Whether a symbolic link in the last component is followed, defaults to true
+   * @returns The node at the path, or null if not found
+   * @throws {FileSystemError} If too many symbolic links are encountered
+   */
+  lookup(path: string, options: { followSymlinks?: boolean } = {}): FSNode | null {
+    const normalizedPath = this.normalizePath(path);
+    return this.walk([this.root], normalizedPath, options.followSymlinks ?? true)?.node ?? null;
+  }
+
+  /**
+   * Resolves a relative path from a directory.
+   * @param dir Starting directory
+   * @param relativePath Relative path to resolve
+   * @param options.followSymlinks Whether a symbolic link in the last component is followed, defaults to true
+   * @returns The resolved node, or null if not found
+   * @throws {FileSystemError} If too many symbolic links are encountered
+   */
+  resolve(
+    dir: DirectoryNode,
+    relativePath: string,
+    options: { followSymlinks?: boolean } = {}
+  ): FSNode | null {
+    const normalizedPath = this.normalizePath(relativePath).slice(1);
+    return this.walk([dir], normalizedPath, options.followSymlinks ?? true)?.node ?? null;
+  }
+
+  /**
+   * Walks a path component by component, following symbolic links.
+   * @param chain Directories leading to the starting directory, which is the last element
+   * @param path Path to walk; absolute paths start at the root
+   * @param followFinal Whether a symbolic link in the last component is followed
+   * @param state Number of symbolic links followed so far while resolving the original path
+   * @returns The node the path refers to and the directories leading to it, or null if not found
+   * @throws {FileSystemError} If too many symbolic links are encountered
+   */
+  private walk(
+    chain: DirectoryNode[],
+    path: string,
+    followFinal: boolean,
+    state = { links: 0 }
+  ): { node: FSNode; chain: DirectoryNode[] } | null {
+    let dirs = path.startsWith("/") ? [this.root] : [...chain];
+    let current: FSNode = dirs[dirs.length - 1] ?? this.root;
+    const parts = path.split("/").filter((p) => p.length > 0);
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i] as string;
+      if (current.type !== "dir") return null;
+      if (part === ".") continue;
+      if (part === "..") {
+        if (dirs.length === 1) {
+          dirs = this.pathTo(current) ?? dirs;
+        }
+        if (dirs.length > 1) dirs.pop();
+        current = dirs[dirs.length - 1] ?? this.root;
+        continue;
+      }
+
+      const entry: FSNode | undefined = current.entries[part];
+      if (!entry) return null;
+
+      if (entry.type === "symlink" && (followFinal || i < parts.length - 1)) {
+        if (++state.links > MAX_SYMLINK_DEPTH) {
+          throw new FileSystemError(WASIAbi.WASI_ERRNO_LOOP, `Too many symbolic links in "${path}"`);
+        }
+        const resolved = this.walk(dirs, entry.target, true, state);
+        if (!resolved) return null;
+        dirs = resolved.chain;
+        current = resolved.node;
+        continue;
+      }
+
+      if (entry.type === "dir") dirs.push(entry);
+      current = entry;
+    }
+
+    return { node: current, chain: dirs };
+  }
+
+  /**
+   * Finds the directories leading from the root to a directory.
+   * @returns The directories from the root to `target` inclusive, or null if it is not in the tree
+   */
+  private pathTo(target: DirectoryNode, dir: DirectoryNode = this.root): DirectoryNode[] | null {
+    const chain = [target];
+    for (let current = target; current !== dir; ) {
+      const link = this.parents.get(current);
+      if (!link || link.parent.entries[link.name] !== current) return null;
+      current = link.parent;
+      chain.unshift(current);
+    }
+    return chain;
+  }
+
+  /**
+   * Adds an entry to a directory, recording the parent of a directory and of
+   * the directories below it.
+   */
+  private addEntry(parent: DirectoryNode, name: string, node: FSNode): void {
+    const replaced = parent.entries[name];
+    parent.entries[name] = node;
+    if (replaced && replaced !== node) this.dropLink(replaced);
+    if (parent === this.root || this.counted.has(parent)) this.track(node);
+    if (node.type !== "dir") return;
+    this.parents.set(node, { parent, name });
+    for (const [childName, child] of Object.entries(node.entries)) {
+      if (child.type === "dir" && this.parents.get(child)?.parent !== node) this.addEntry(node, childName, child);
+    }
+  }
+
+  /**
+   * Ensures a directory exists at the specified path, creating it if necessary.
+   * @param path Path to the directory
+   * @returns The directory node
+   */
+  ensureDir(path: string): DirectoryNode {
+    const normalizedPath = this.normalizePath(path);
+    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
+    let current: DirectoryNode = this.root;
+
+    for (const part of parts) {
+      let next = current.entries[part];
+      if (!next) {
+        next = { type: "dir", entries: {}, ...currentTimes() };
+        this.addEntry(current, part, next);
+      }
+      if (next.type !== "dir") {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${part}" is not a directory`);
+      }
+
+      current = next;
+    }
+
+    return current;
+  }
+
+  /**
+   * Creates a directory in a directory.
+   * @param dir Parent directory
+   * @param relativePath Path relative to the directory
+   * @returns The created directory node
+   * @throws {FileSystemError} If the entry already exists or its parent is missing
+   */
+  createDirectoryIn(dir: DirectoryNode, relativePath: string): DirectoryNode {
+    const { parent, name, chain } = this.resolveParent(dir, relativePath);
+    if (name === "" || name === "." || name === ".." || parent.entries[name]) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${relativePath}" already exists`);
+    }
+    this.assertWritableAt(chain);
+    this.assertCanCreate();
+
+    const node: DirectoryNode = { type: "dir", entries: {}, ...currentTimes() };
+    this.addEntry(parent, name, node);
+    markModified(parent);
+    this.notifyEntry("create", parent, name);
+    return node;
+  }
+
+  /**
+   * Removes an empty directory from a directory.
+   * @param dir Parent directory
+   * @param relativePath Path relative to the directory
+   * @throws {FileSystemError} If the entry is missing, not a directory or not empty
+   */
+  removeDirectoryIn(dir: DirectoryNode, relativePath: string): void {
+    const { parent, name, chain } = this.resolveParent(dir, relativePath);
+    if (name === "") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_BUSY, "Cannot remove the root directory");
+    }
+    if (name === ".") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `Cannot remove "${relativePath}"`);
+    }
+    if (name === "..") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTEMPTY, `Cannot remove "${relativePath}"`);
+    }
+
+    const target = parent.entries[name];
+    if (!target) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${relativePath}" does not exist`);
+    }
+    if (target.type !== "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${relativePath}" is not a directory`);
+    }
+    if (Object.keys(target.entries).length > 0) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTEMPTY, `"${relativePath}" is not empty`);
+    }
+    this.assertWritableAt(chain, target);
+
+    this.notifyEntry("delete", parent, name);
+    this.detachEntry(parent, name);
+    markModified(parent);
+  }
+
+  /**
+   * Removes a non-directory entry from a directory.
+   * @param dir Parent directory
+   * @param relativePath Path relative to the directory
+   * @throws {FileSystemError} If the entry is missing or is a directory
+   */
+  unlinkIn(dir: DirectoryNode, relativePath: string): void {
+    const { parent, name, chain } = this.resolveParent(dir, relativePath);
+    const target = name === "" ? this.root : parent.entries[name];
+    if (!target) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${relativePath}" does not exist`);
+    }
+    if (target.type === "dir" || name === "." || name === "..") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${relativePath}" is a directory`);
+    }
+    this.assertWritableAt(chain, target);
+
+    this.notifyEntry("delete", parent, name);
+    this.detachEntry(parent, name);
+    markModified(parent);
+  }
+
+  /**
+   * Moves an entry to a new location, replacing an existing entry at the destination.
+   * @param oldDir Directory the source path is relative to
+   * @param oldRelativePath Path of the entry to move
+   * @param newDir Directory the destination path is relative to
+   * @param newRelativePath Path to move the entry to
+   * @throws {FileSystemError} If the source is missing or cannot replace the destination
+   */
+  renameIn(
+    oldDir: DirectoryNode,
+    oldRelativePath: string,
+    newDir: DirectoryNode,
+    newRelativePath: string
+  ): void {
+    const source = this.resolveParent(oldDir, oldRelativePath);
+    const destination = this.resolveParent(newDir, newRelativePath);
+    for (const { name } of [source, destination]) {
+      if (name === "") {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_BUSY, "Cannot rename the root directory");
+      }
+      if (name === "." || name === "..") {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `Cannot rename "${name}"`);
+      }
+    }
+
+    const node = source.parent.entries[source.name];
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${oldRelativePath}" does not exist`);
+    }
+
+    const existing = destination.parent.entries[destination.name];
+    this.assertWritableAt(source.chain, node);
+    this.assertWritableAt(destination.chain, existing);
+    if (existing === node) return;
+    if (existing) {
+      if (node.type === "dir" && existing.type !== "dir") {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${newRelativePath}" is not a directory`);
+      }
+      if (node.type !== "dir" && existing.type === "dir") {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${newRelativePath}" is a directory`);
+      }
+      if (existing.type === "dir" && Object.keys(existing.entries).length > 0) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTEMPTY, `"${newRelativePath}" is not empty`);
+      }
+    }
+    if (node.type === "dir" && this.pathTo(destination.parent, node)) {
+      throw new FileSystemError(
+        WASIAbi.WASI_ERRNO_INVAL,
+        `Cannot move "${oldRelativePath}" into itself`
+      );
+    }
+
+    if (existing) this.detachEntry(destination.parent, destination.name);
+    delete source.parent.entries[source.name];
+    this.addEntry(destination.parent, destination.name, node);
+    for (const [handle, parent] of this.handleParents) {
+      const opened = this.handles.get(handle);
+      if (parent === source.parent && (opened === node || (opened?.type === "file" && opened.snapshotOf === node))) {
+        this.handleParents.set(handle, destination.parent);
+      }
+    }
+    markModified(source.parent);
+    markModified(destination.parent);
+    this.notifyEntry("rename", destination.parent, destination.name, source.parent, source.name);
+  }
+
+  /**
+   * Creates a symbolic link in a directory.
+   * @param dir Parent directory
+   * @param relativePath Path of the link relative to the directory
+   * @param target Path the link points to, stored as given
+   * @throws {FileSystemError} If the entry already exists or its parent is missing
+   */
+  symlinkIn(dir: DirectoryNode, relativePath: string, target: string): void {
+    const { parent, name, chain } = this.resolveParent(dir, relativePath);
+    if (name === "" || name === "." || name === ".." || parent.entries[name]) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${relativePath}" already exists`);
+    }
+    this.assertWritableAt(chain);
+    this.assertCanCreate();
+    this.addEntry(parent, name, { type: "symlink", target });
+    markModified(parent);
+    this.notifyEntry("create", parent, name);
+  }
+
+  /**
+   * Creates a hard link to an existing non-directory node.
+   * @param oldDir Directory the existing path is relative to
+   * @param oldRelativePath Path of the existing node
+   * @param followSymlinks Whether a symbolic link at the existing path is followed
+   * @param newDir Directory the new path is relative to
+   * @param newRelativePath Path of the link to create
+   * @throws {FileSystemError} If the existing node is missing or a directory, or the new entry exists
+   */
+  linkIn(
+    oldDir: DirectoryNode,
+    oldRelativePath: string,
+    followSymlinks: boolean,
+    newDir: DirectoryNode,
+    newRelativePath: string
+  ): void {
+    const normalizedPath = this.normalizePath(oldRelativePath).slice(1);
+    const source = this.walk([oldDir], normalizedPath, followSymlinks);
+    if (!source) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${oldRelativePath}" does not exist`);
+    }
+    const node = source.node;
+    if (node.type === "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_PERM, `"${oldRelativePath}" is a directory`);
+    }
+
+    const { parent, name, chain } = this.resolveParent(newDir, newRelativePath);
+    if (name === "" || name === "." || name === ".." || parent.entries[name]) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${newRelativePath}" already exists`);
+    }
+    this.assertWritableAt(chain);
+    // A link would make a file from a read-only tree writable through another path.
+    if (this.inReadOnlyTree(source.chain)) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_XDEV, `"${oldRelativePath}" is on a read-only file system`);
+    }
+    parent.entries[name] = node;
+    this.extraLinks.set(node, (this.extraLinks.get(node) ?? 0) + 1);
+    markModified(parent);
+    this.notifyEntry("create", parent, name);
+  }
+
+  /**
+   * Reads the target of a symbolic link in a directory.
+   * @param dir Parent directory
+   * @param relativePath Path of the link relative to the directory
+   * @returns The target the link points to
+   * @throws {FileSystemError} If the entry is missing or not a symbolic link
+   */
+  readlinkIn(dir: DirectoryNode, relativePath: string): string {
+    const node = this.resolve(dir, relativePath, { followSymlinks: false });
+    if (!node) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${relativePath}" does not exist`);
+    }
+    if (node.type !== "symlink") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_INVAL, `"${relativePath}" is not a symbolic link`);
+    }
+    return node.target;
+  }
+
+  /**
+   * Removes a directory entry, keeping track of the remaining hard links to its node.
+   */
+  private detachEntry(parent: DirectoryNode, name: string): void {
+    const node = parent.entries[name];
+    if (!node) return;
+    delete parent.entries[name];
+    this.dropLink(node);
+  }
+
+  /**
+   * Counts a node that was linked into the tree, and the nodes below it,
+   * towards the usage. Devices are not counted.
+   */
+  private track(node: FSNode): void {
+    if (node.type === "character" || this.counted.has(node)) return;
+    this.counted.add(node);
+    this.used.nodes++;
+    if (node.type === "file") this.account(node);
+    if (node.type === "dir") {
+      for (const child of Object.values(node.entries)) this.track(child);
+    }
+  }
+
+  /**
+   * Removes a link to a node. Once the last one is gone the node is released,
+   * or for a file that is still open, once its last handle is closed.
+   */
+  private dropLink(node: FSNode): void {
+    const links = this.extraLinks.get(node) ?? 0;
+    if (links > 0) {
+      this.extraLinks.set(node, links - 1);
+    } else if (node.type === "file" && [...this.handles.values()].includes(node)) {
+      this.orphans.add(node);
+    } else {
+      this.release(node);
+    }
+  }
+
+  /**
+   * Stops counting a node, and the nodes below a directory that lose their link through it.
+   */
+  private release(node: FSNode): void {
+    if (!this.counted.delete(node)) return;
+    this.used.nodes--;
+    if (node.type === "file") {
+      this.used.bytes -= this.countedSizes.get(node) ?? 0;
+      this.countedSizes.delete(node);
+      this.orphans.delete(node);
+    }
+    if (node.type === "dir") {
+      for (const child of Object.values(node.entries)) this.dropLink(child);
+    }
+  }
+
+  /**
+   * Updates the bytes counted for a file to its current size. The content
+   * written through a descriptor of a dynamic file counts for the file.
+   */
+  private account(node: FileNode): void {
+    const file = node.snapshotOf ?? node;
+    if (!this.counted.has(file)) return;
+    const size = getFileSize(file);
+    this.used.bytes += size - (this.countedSizes.get(file) ?? 0);
+    this.countedSizes.set(file, size);
+  }
+
+  /**
+   * Resolves the directory containing the last component of a path.
+   * @param dir Starting directory
+   * @param relativePath Path relative to the directory
+   * @returns The parent directory and the name of the last component, which is empty for the root
+   * @throws {FileSystemError} If the parent does not exist or is not a directory
+   */
+  private resolveParent(
+    dir: DirectoryNode,
+    relativePath: string
+  ): { parent: DirectoryNode; name: string; chain: DirectoryNode[] } {
+    const parts = this.normalizePath(relativePath)
+      .split("/")
+      .filter((p) => p.length > 0);
+    const name = parts.pop() ?? "";
+
+    const resolved = this.walk([dir], parts.join("/"), true);
+    if (!resolved) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `Parent of "${relativePath}" does not exist`);
+    }
+    const parent = resolved.node;
+    if (parent.type !== "dir") {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `Parent of "${relativePath}" is not a directory`);
+    }
+    return { parent, name, chain: resolved.chain };
+  }
+
+  /**
+   * Checks whether any directory leading to and including the end of a chain is read-only.
+   * @param chain Directories as returned by `walk`, which may start below the root
+   */
+  private inReadOnlyTree(chain: DirectoryNode[]): boolean {
+    const start = chain[0];
+    const ancestors = start && start !== this.root ? (this.pathTo(start) ?? []) : [];
+    return ancestors.some((dir) => dir.readOnly) || chain.some((dir) => dir.readOnly);
+  }
+
+  /**
+   * Checks that a directory, and optionally one of its entries, may be modified.
+   * @param chain Directories leading to the directory, which is the last element
+   * @param node Entry of the directory that is changed or removed
+   * @throws {FileSystemError} EACCES for a read-only file, EROFS for a read-only directory
+   */
+  private assertWritableAt(chain: DirectoryNode[], node?: FSNode): void {
+    if (this.inReadOnlyTree(chain) || (node?.type === "dir" && node.readOnly)) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ROFS, "Read-only file system");
+    }
+    if (node?.type === "file" && node.readOnly) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ACCES, "File is read-only");
+    }
+  }
+
+  /**
+   * Creates a file in a directory.
+   * @param dir Parent directory
+   * @param relativePath Path relative to the directory
+   * @returns The created file node
+   */
+  createFileIn(dir: DirectoryNode, relativePath: string): FileNode {
+    const normalizedPath = this.normalizePath(relativePath);
+    const parts = normalizedPath.split("/").filter((p) => p.length > 0);
+
+    if (parts.length === 0) {
+      throw new Error("Cannot create a file with an empty name");
+    }
+
+    const fileName = parts.pop();
+    if (!fileName) {
+      throw new Error("Cannot create a file with an empty name");
+    }
+    let current = dir;
+    let chain = [dir];
+
+    for (const part of parts) {
+      if (part !== "." && part !== ".." && !current.entries[part]) {
+        this.assertWritableAt(chain);
+        this.assertCanCreate();
+        this.addEntry(current, part, { type: "dir", entries: {}, ...currentTimes() });
+        markModified(current);
+        this.notifyEntry("create", current, part);
+      }
+
+      const next = this.walk(chain, part, true);
+      if (!next) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${part}" is a dangling symbolic link`);
+      }
+      if (next.node.type !== "dir") {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${part}" is not a directory`);
+      }
+
+      current = next.node;
+      chain = next.chain;
+    }
+
+    // Creating a file through a dangling symbolic link creates the file it points to.
+    const existing = current.entries[fileName];
+    if (existing?.type === "symlink") {
+      return this.createFileIn(existing.target.startsWith("/") ? this.root : current, existing.target);
+    }
+
+    this.assertWritableAt(chain);
+    this.assertCanCreate();
+    const fileNode: FileNode = { type: "file", content: new Uint8Array(0), ...currentTimes() };
+    this.addEntry(current, fileName, fileNode);
+    markModified(current);
+    this.notifyEntry("create", current, fileName);
+    return fileNode;
+  }
+
+  /**
+   * Resolves the path of an archive entry below the directory it is extracted to.
+   * @throws {Error} If the entry path leaves the archive root
+   */
+  private archivePath(base: string, entryPath: string): string {
+    const parts = entryPath.split("/").filter((p) => p.length > 0 && p !== ".");
+    if (parts.includes("..")) {
+      throw new Error(`Invalid archive: "${entryPath}" is outside the archive`);
+    }
+    return base === "/" ? `/${parts.join("/")}` : `${base}/${parts.join("/")}`;
+  }
+
+  /**
+   * Normalizes a path by removing duplicate slashes and trailing slashes.
+   * @param path Path to normalize
+   * @returns Normalized path
+   */
+  private normalizePath(path: string): string {
+    // Handle empty path
+    if (!path) return "/";
+
+    // Ensure path starts with a slash
+    const withLeadingSlash = path.startsWith("/") ? path : `/${path}`;
+
+    // Remove duplicate slashes and normalize
+    const normalized = withLeadingSlash.replace(/\/+/g, "/");
+
+    // Remove trailing slash unless it's the root path
+    return normalized === "/" ? normalized : normalized.replace(/\/+$/, "");
+  }
+}
+
+/**
+ * Creates a feature provider that implements a complete in-memory file system.
+ *
+ * This provides implementations for all file descriptor and path-related WASI
+ * functions, including `fd_read`, `fd_write`, `fd_seek`, `fd_tell`, `fd_close`,
+ * `path_open`, and more to support a full featured file system environment.
+ * They are the functions of `useMounts`, over the file system mounted at `/`
+ * with its preopened directories. Paths are resolved inside the preopen they
+ * are opened from: `..` components and symbolic links that would leave it
+ * fail with `ENOTCAPABLE`.
+ *
+ * ```js
+ * const wasi = new WASI({
+ *   features: [useMemoryFS()],
+ * });
+ * ```
+ *
+ * You can provide a pre-configured file system instance:
+ *
+ * ```js
+ * const fs = new MemoryFileSystem();
+ * fs.addFile("/hello.txt", "Hello, world!");
+ *
+ * const wasi = new WASI({
+ *   features: [useMemoryFS({ withFileSystem: fs })],
+ * });
+ * ```
+ *
+ * You can also combine it with standard IO:
+ *
+ * ```js
+ * const wasi = new WASI({
+ *   features: [
+ *     useMemoryFS({
+ *       withStdIo: {
+ *         stdout: (lines) => document.write(lines),
+ *         stderr: (lines) => document.write(lines),
+ *       }
+ *     })
+ *   ],
+ * });
+ * ```
+ *
+ * @param useOptions - Configuration options for the memory file system
+ * @param useOptions.withFileSystem - Optional pre-configured file system instance
+ * @param useOptions.withStdIo - Optional standard I/O configuration
+ * @returns A WASI feature provider implementing file system functionality
+ */
+export function useMemoryFS(
+  useOptions: {
+    withFileSystem?: MemoryFileSystem;
+    withStdIo?: StdIoOptions;
+  } = {}
+): WASIFeatureProvider {
+  return (wasiOptions: WASIOptions, abi: WASIAbi, memoryView: () => DataView) => {
+    const fileSystem = useOptions.withFileSystem || new MemoryFileSystem(wasiOptions.preopens);
+    return useBackends({
+      mounts: { "/": fileSystem },
+      preopens: fileSystem.getPreopenPaths(),
+      withStdIo: useOptions.withStdIo,
+    })(wasiOptions, abi, memoryView);
+  };
+}
+
+/**
+ * A file system that can be mounted with `useMounts`. `MemoryFileSystem` and
+ * `HostFileSystem` implement it, and custom stores can too.
+ *
+ * Paths are absolute paths inside the file system, already resolved by the
+ * caller: they contain no `.` or `..` components, and symbolic links are
+ * only expected in the last component. Failures are reported by throwing a
+ * `FileSystemError`. Only `read` may return a promise.
+ */
+export interface FileSystemBackend {
+  /** Gets the metadata of an entry, without following a symbolic link in the last component. */
+  stat(path: string): FileStat;
+  /** Gets the metadata of an open file. */
+  fstat(handle: number): FileStat;
+  /** Opens a file, returning a handle for the other methods. */
+  open(
+    path: string,
+    options: { read?: boolean; write?: boolean; create?: boolean; exclusive?: boolean; truncate?: boolean }
+  ): number;
+  close(handle: number): void;
+  /** Reads from an open file into buffers, returning the number of bytes read. */
+  read(handle: number, buffers: Uint8Array[], position: number): number | Promise<number>;
+  /** Writes buffers to an open file, returning the number of bytes written. */
+  write(handle: number, buffers: Uint8Array[], position: number): number;
+  /**
+   * Writes buffers to the end of an open file, returning the number of bytes
+   * written. Without it, appending writes go to the size `fstat` reports.
+   */
+  append?(handle: number, buffers: Uint8Array[]): number;
+  truncate(handle: number, size: number): void;
+  /** Sets the times of an entry, without following a symbolic link in the last component. */
+  setTimes(path: string, atim: bigint, mtim: bigint): void;
+  fsetTimes(handle: number, atim: bigint, mtim: bigint): void;
+  /** Lists the names of the entries of a directory. */
+  readdir(path: string): string[];
+  mkdir(path: string): void;
+  rmdir(path: string): void;
+  unlink(path: string): void;
+  rename(oldPath: string, newPath: string): void;
+  symlink(target: string, path: string): void;
+  readlink(path: string): string;
+  link(existingPath: string, newPath: string): void;
+  sync(handle: number): void;
+  datasync(handle: number): void;
+  /**
+   * Gets the standard stream of the instance an open device stands for, such
+   * as `/dev/stdout`. Such devices read and write the standard I/O of the
+   * instance instead of the file system.
+   */
+  standardStream?(handle: number): "stdin" | "stdout" | "stderr" | "tty" | null;
+}
+
+/**
+ * The synchronous subset of the `node:fs` module used by `HostFileSystem`.
+ * The `node:fs` modules of Node, Bun and Deno all satisfy it.
+ */
+export interface NodeFS {
+  constants: {
+    O_RDONLY: number;
+    O_WRONLY: number;
+    O_RDWR: number;
+    O_CREAT: number;
+    O_EXCL: number;
+    O_TRUNC: number;
+    O_NOFOLLOW?: number;
+  };
+  openSync(path: string, flags: number, mode?: number): number;
+  closeSync(fd: number): void;
+  readSync(fd: number, buffer: Uint8Array, offset: number, length: number, position: number | null): number;
+  writeSync(fd: number, buffer: Uint8Array, offset: number, length: number, position: number | null): number;
+  fstatSync(fd: number): NodeStats;
+  lstatSync(path: string): NodeStats;
+  readdirSync(path: string): string[];
+  mkdirSync(path: string): unknown;
+  rmdirSync(path: string): void;
+  unlinkSync(path: string): void;
+  renameSync(oldPath: string, newPath: string): void;
+  symlinkSync(target: string, path: string): void;
+  readlinkSync(path: string): string;
+  realpathSync(path: string): string;
+  linkSync(existingPath: string, newPath: string): void;
+  ftruncateSync(fd: number, len?: number): void;
+  futimesSync(fd: number, atime: number, mtime: number): void;
+  utimesSync(path: string, atime: number, mtime: number): void;
+  lutimesSync?(path: string, atime: number, mtime: number): void;
+  fsyncSync(fd: number): void;
+  fdatasyncSync(fd: number): void;
+}
+
+/**
+ * File metadata as returned by the `stat` functions of `NodeFS`.
+ */
+export interface NodeStats {
+  dev: number | bigint;
+  ino: number | bigint;
+  nlink: number | bigint;
+  size: number | bigint;
+  atimeMs: number;
+  mtimeMs: number;
+  ctimeMs: number;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+  isCharacterDevice(): boolean;
+  isBlockDevice(): boolean;
+}
+
+/**
+ * Metadata of a file system entry, in the shape of a WASI `filestat`.
+ */
+export interface FileStat {
+  filetype: number;
+  ino: bigint;
+  nlink: bigint;
+  size: bigint;
+  atim: bigint;
+  mtim: bigint;
+  ctim: bigint;
+  /** Whether the entry cannot be changed, so that descriptors opened on it get no rights to change it. */
+  readonly?: boolean;
+}
+
+/**
+ * WASI error numbers for the `code` of errors thrown by `node:fs`.
+ */
+const HOST_ERROR_CODES: Record<string, number> = {
+  EACCES: WASIAbi.WASI_ERRNO_ACCES,
+  EBADF: WASIAbi.WASI_ERRNO_BADF,
+  EBUSY: WASIAbi.WASI_ERRNO_BUSY,
+  EEXIST: WASIAbi.WASI_ERRNO_EXIST,
+  EFBIG: WASIAbi.WASI_ERRNO_FBIG,
+  EINVAL: WASIAbi.WASI_ERRNO_INVAL,
+  EIO: WASIAbi.WASI_ERRNO_IO,
+  EISDIR: WASIAbi.WASI_ERRNO_ISDIR,
+  ELOOP: WASIAbi.WASI_ERRNO_LOOP,
+  EMFILE: WASIAbi.WASI_ERRNO_MFILE,
+  ENAMETOOLONG: WASIAbi.WASI_ERRNO_NAMETOOLONG,
+  ENOENT: WASIAbi.WASI_ERRNO_NOENT,
+  ENOSPC: WASIAbi.WASI_ERRNO_NOSPC,
+  ENOTDIR: WASIAbi.WASI_ERRNO_NOTDIR,
+  ENOTEMPTY: WASIAbi.WASI_ERRNO_NOTEMPTY,
+  ENOTSUP: WASIAbi.WASI_ERRNO_NOTSUP,
+  EPERM: WASIAbi.WASI_ERRNO_PERM,
+  EROFS: WASIAbi.WASI_ERRNO_ROFS,
+  ESPIPE: WASIAbi.WASI_ERRNO_SPIPE,
+  EXDEV: WASIAbi.WASI_ERRNO_XDEV,
+};
+
+/**
+ * Converts an error thrown by `node:fs` into a `FileSystemError`. Errors
+ * without an error code are returned unchanged.
+ */
+function fromHostError(error: unknown): unknown {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code !== "string") return error;
+  const message = error instanceof Error ? error.message : code;
+  return new FileSystemError(HOST_ERROR_CODES[code] ?? WASIAbi.WASI_ERRNO_IO, message);
+}
+
+function toFileStat(stats: NodeStats): FileStat {
+  let filetype = WASIAbi.WASI_FILETYPE_UNKNOWN;
+  if (stats.isFile()) filetype = WASIAbi.WASI_FILETYPE_REGULAR_FILE;
+  else if (stats.isDirectory()) filetype = WASIAbi.WASI_FILETYPE_DIRECTORY;
+  else if (stats.isSymbolicLink()) filetype = WASIAbi.WASI_FILETYPE_SYMBOLIC_LINK;
+  else if (stats.isCharacterDevice()) filetype = WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE;
+  else if (stats.isBlockDevice()) filetype = WASIAbi.WASI_FILETYPE_BLOCK_DEVICE;
+
+  return {
+    filetype,
+    ino: BigInt(stats.ino),
+    nlink: BigInt(stats.nlink),
+    size: BigInt(stats.size),
+    atim: msToNs(stats.atimeMs),
+    mtim: msToNs(stats.mtimeMs),
+    ctim: msToNs(stats.ctimeMs),
+  };
+}
+
+/**
+ * File system backed by a directory of the host, accessed through a
+ * `node:fs`-compatible module.
+ *
+ * Paths are absolute paths inside that directory. They must already be
+ * resolved: `.` and `..` components are rejected, and symbolic links are only
+ * followed by the host in components the caller has checked.
+ */
+export class HostFileSystem implements FileSystemBackend {
+  private readonly root: string;
+  /** The root with its symbolic links resolved, once a file has been opened. */
+  private realRoot?: string;
+
+  /**
+   * Creates a file system over a host directory.
+   * @param fs The `node:fs` module, or a compatible implementation
+   * @param root Host directory that becomes the root of the file system
+   */
+  constructor(private readonly fs: NodeFS, root: string) {
+    this.root = root.replace(/[\\/]+$/, "");
+  }
+
+  /**
+   * Gets the metadata of an entry, without following a symbolic link in the last component.
+   * @throws {FileSystemError} If the entry does not exist
+   */
+  stat(path: string): FileStat {
+    return toFileStat(this.call(() => this.fs.lstatSync(this.hostPath(path))));
+  }
+
+  /**
+   * Gets the metadata of an open file.
+   */
+  fstat(handle: number): FileStat {
+    return toFileStat(this.call(() => this.fs.fstatSync(handle)));
+  }
+
+  /**
+   * Opens a file.
+   *
+   * A symbolic link in the last component is not followed, and the opened
+   * file is checked to be the one inside the root before it is truncated, so
+   * a link swapped in after the path was resolved cannot reach the host
+   * outside it.
+   * @param path Path of the file
+   * @param options.read Open the file for reading
+   * @param options.write Open the file for writing
+   * @param options.create Create the file if it does not exist
+   * @param options.exclusive Fail if the file already exists
+   * @param options.truncate Truncate the file to size 0
+   * @returns A handle for the other methods of this file system
+   * @throws {FileSystemError} If the file cannot be opened, or is outside the root
+   */
+  open(
+    path: string,
+    options: { read?: boolean; write?: boolean; create?: boolean; exclusive?: boolean; truncate?: boolean }
+  ): number {
+    const { constants } = this.fs;
+    let flags = constants.O_RDONLY;
+    if (options.write) flags = options.read ? constants.O_RDWR : constants.O_WRONLY;
+    if (options.create) flags |= constants.O_CREAT;
+    if (options.exclusive) flags |= constants.O_EXCL;
+    if (constants.O_NOFOLLOW !== undefined) flags |= constants.O_NOFOLLOW;
+
+    const hostPath = this.hostPath(path);
+    const handle = this.call(() => this.fs.openSync(hostPath, flags, 0o666));
+    try {
+      this.assertOpenedInside(handle, hostPath);
+      if (options.truncate) this.call(() => this.fs.ftruncateSync(handle, 0));
+    } catch (error) {
+      this.fs.closeSync(handle);
+      throw error;
+    }
+    return handle;
+  }
+
+  close(handle: number): void {
+    this.call(() => this.fs.closeSync(handle));
+  }
+
+  /**
+   * Reads from an open file into buffers, starting at a position.
+   * @returns The number of bytes read
+   */
+  read(handle: number, buffers: Uint8Array[], position: number): number {
+    let total = 0;
+    for (const buffer of buffers) {
+      const count = this.call(() =>
+        this.fs.readSync(handle, buffer, 0, buffer.byteLength, position + total)
+      );
+      total += count;
+      if (count < buffer.byteLength) break;
+    }
+    return total;
+  }
+
+  /**
+   * Writes buffers to an open file, starting at a position.
+   * @returns The number of bytes written
+   */
+  write(handle: number, buffers: Uint8Array[], position: number): number {
+    let total = 0;
+    for (const buffer of buffers) {
+      let offset = 0;
+      while (offset < buffer.byteLength) {
+        offset += this.call(() =>
+          this.fs.writeSync(handle, buffer, offset, buffer.byteLength - offset, position + total + offset)
+        );
+      }
+      total += buffer.byteLength;
+    }
+    return total;
+  }
+
+  truncate(handle: number, size: number): void {
+    this.call(() => this.fs.ftruncateSync(handle, size));
+  }
+
+  /**
+   * Sets the access and modification times of an entry, without following a
+   * symbolic link in the last component where the host supports it.
+   */
+  setTimes(path: string, atim: bigint, mtim: bigint): void {
+    const utimes = this.fs.lutimesSync ?? this.fs.utimesSync;
+    this.call(() => utimes.call(this.fs, this.hostPath(path), Number(atim) / 1e9, Number(mtim) / 1e9));
+  }
+
+  /**
+   * Sets the access and modification times of an open file.
+   */
+  fsetTimes(handle: number, atim: bigint, mtim: bigint): void {
+    this.call(() => this.fs.futimesSync(handle, Number(atim) / 1e9, Number(mtim) / 1e9));
+  }
+
+  /**
+   * Lists the names of the entries of a directory.
+   */
+  readdir(path: string): string[] {
+    return this.call(() => this.fs.readdirSync(this.hostPath(path)));
+  }
+
+  mkdir(path: string): void {
+    this.call(() => this.fs.mkdirSync(this.hostPath(path)));
+  }
+
+  rmdir(path: string): void {
+    this.call(() => this.fs.rmdirSync(this.hostPath(path)));
+  }
+
+  unlink(path: string): void {
+    this.call(() => this.fs.unlinkSync(this.hostPath(path)));
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    this.call(() => this.fs.renameSync(this.hostPath(oldPath), this.hostPath(newPath)));
+  }
+
+  symlink(target: string, path: string): void {
+    this.call(() => this.fs.symlinkSync(target, this.hostPath(path)));
+  }
+
+  readlink(path: string): string {
+    return this.call(() => this.fs.readlinkSync(this.hostPath(path)));
+  }
+
+  link(existingPath: string, newPath: string): void {
+    this.call(() => this.fs.linkSync(this.hostPath(existingPath), this.hostPath(newPath)));
+  }
+
+  sync(handle: number): void {
+    this.call(() => this.fs.fsyncSync(handle));
+  }
+
+  datasync(handle: number): void {
+    this.call(() => this.fs.fdatasyncSync(handle));
+  }
+
+  /**
+   * Checks that an open file is the entry its host path now resolves to, and
+   * that this entry is inside the root.
+   * @throws {FileSystemError} ENOTCAPABLE if the file was reached through a link leaving the root
+   */
+  private assertOpenedInside(handle: number, hostPath: string): void {
+    const opened = this.call(() => this.fs.fstatSync(handle));
+    const realPath = this.call(() => this.fs.realpathSync(hostPath));
+    const root = (this.realRoot ??= this.call(() => this.fs.realpathSync(this.root || "/")));
+
+    const inside =
+      realPath === root ||
+      ["/", "\\"].some((sep) => realPath.startsWith(root.endsWith(sep) ? root : `${root}${sep}`));
+    const current = inside ? this.call(() => this.fs.lstatSync(realPath)) : null;
+    if (!current || BigInt(current.ino) !== BigInt(opened.ino) || BigInt(current.dev) !== BigInt(opened.dev)) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, `"${hostPath}" is outside the root`);
+    }
+  }
+
+  /**
+   * Maps a path of this file system to a path of the host.
+   * @throws {FileSystemError} If the path is not resolved
+   */
+  private hostPath(path: string): string {
+    const parts = path.split("/").filter((p) => p.length > 0);
+    if (parts.some((p) => p === "." || p === "..")) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, `"${path}" is not a resolved path`);
+    }
+    if (parts.length === 0) return this.root || "/";
+    return `${this.root}/${parts.join("/")}`;
+  }
+
+  private call<T>(operation: () => T): T {
+    try {
+      return operation();
+    } catch (error) {
+      throw fromHostError(error);
+    }
+  }
+}
+
+/**
+ * Bit set in the inode numbers of lower entries of an `OverlayFileSystem`.
+ */
+const LOWER_INODE_BIT = 1n << 62n;
+
+/**
+ * Copy-on-write file system over a shared, unchanged lower layer.
+ *
+ * Reads fall through to the lower layer until an entry is modified, which
+ * copies it up to the private upper layer first. Deleted lower entries are
+ * hidden by whiteouts, and directories recreated over deleted ones are
+ * opaque, so none of the lower entries below them show through. Many
+ * overlays can share one lower layer without copying it. Read-only files and
+ * directories of the lower layer stay read-only in the overlay.
+ *
+ * ```js
+ * const base = new MemoryFileSystem();
+ * base.addFile("/lib/Helper.pm", "package Helper; 1;");
+ *
+ * const perl = await ZeroPerl.create({ fileSystem: new OverlayFileSystem(base) });
+ * ```
+ */
+export class OverlayFileSystem implements FileSystemBackend {
+  /** Paths of deleted lower entries. */
+  private whiteouts = new Set<string>();
+  /** Paths of upper directories that hide the lower entries below them. */
+  private opaque = new Set<string>();
+  private handles = new Map<number, { layer: MemoryFileSystem; handle: number; path: string }>();
+  private nextHandle = 1;
+
+  /**
+   * Creates an overlay.
+   * @param lower Shared layer, which is never modified through the overlay
+   * @param upper Layer receiving all changes, a new empty file system by default
+   */
+  constructor(
+    readonly lower: MemoryFileSystem,
+    readonly upper: MemoryFileSystem = new MemoryFileSystem()
+  ) {}
+
+  stat(path: string): FileStat {
+    const layer = this.layerOf(path, true);
+    return this.withInode(layer, layer.stat(path));
+  }
+
+  fstat(handle: number): FileStat {
+    const open = this.getHandle(handle);
+    return this.withInode(open.layer, open.layer.fstat(open.handle));
+  }
+
+  /**
+   * Opens a file, copying it up first when it is opened for writing.
+   * @throws {FileSystemError} If the file cannot be opened
+   */
+  open(
+    path: string,
+    options: { read?: boolean; write?: boolean; create?: boolean; exclusive?: boolean; truncate?: boolean }
+  ): number {
+    const layer = this.layerOf(path);
+    if (layer && options.exclusive) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${path}" already exists`);
+    }
+    if (!layer && !options.create) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+
+    let target = this.upper;
+    if (layer === this.lower && !options.write && !options.truncate) {
+      target = this.lower;
+    } else if (layer === this.lower) {
+      this.assertWritable(path);
+      this.copyUp(path);
+    } else if (!layer) {
+      this.assertWritable(path);
+      this.prepareCreate(path);
+    }
+
+    const handle = this.nextHandle++;
+    this.handles.set(handle, { layer: target, handle: target.open(path, options), path });
+    return handle;
+  }
+
+  close(handle: number): void {
+    const open = this.getHandle(handle);
+    this.handles.delete(handle);
+    open.layer.close(open.handle);
+  }
+
+  read(handle: number, buffers: Uint8Array[], position: number): number | Promise<number> {
+    const open = this.getHandle(handle);
+    return open.layer.read(open.handle, buffers, position);
+  }
+
+  write(handle: number, buffers: Uint8Array[], position: number): number {
+    const open = this.getWritableHandle(handle);
+    return open.layer.write(open.handle, buffers, position);
+  }
+
+  truncate(handle: number, size: number): void {
+    const open = this.getWritableHandle(handle);
+    open.layer.truncate(open.handle, size);
+  }
+
+  setTimes(path: string, atim: bigint, mtim: bigint): void {
+    this.assertWritable(path);
+    if (this.layerOf(path, true) === this.lower) this.copyUp(path);
+    this.upper.setTimes(path, atim, mtim);
+  }
+
+  fsetTimes(handle: number, atim: bigint, mtim: bigint): void {
+    const open = this.getHandle(handle);
+    if (open.layer === this.upper) {
+      this.upper.fsetTimes(open.handle, atim, mtim);
+    } else {
+      this.setTimes(open.path, atim, mtim);
+    }
+  }
+
+  /**
+   * Lists the entries of a directory, merging both layers.
+   */
+  readdir(path: string): string[] {
+    const layer = this.layerOf(path, true);
+    const names = new Set(layer.readdir(path));
+    if (layer === this.upper && this.showsLower(path) && this.lower.lookup(path)?.type === "dir") {
+      for (const name of this.lower.readdir(path)) {
+        if (!this.whiteouts.has(this.childPath(path, name))) names.add(name);
+      }
+    }
+    return [...names];
+  }
+
+  mkdir(path: string): void {
+    if (this.layerOf(path)) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${path}" already exists`);
+    }
+    this.assertWritable(path);
+    this.prepareCreate(path);
+    this.upper.mkdir(path);
+    if (this.lower.lookup(path, { followSymlinks: false })) this.opaque.add(joinPath(splitPath(path)));
+  }
+
+  rmdir(path: string): void {
+    const layer = this.layerOf(path, true);
+    if (layer.stat(path).filetype !== WASIAbi.WASI_FILETYPE_DIRECTORY) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${path}" is not a directory`);
+    }
+    if (this.readdir(path).length > 0) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTEMPTY, `"${path}" is not empty`);
+    }
+    this.assertWritable(path);
+    if (layer === this.upper) this.upper.rmdir(path);
+    this.hide(path);
+  }
+
+  unlink(path: string): void {
+    const layer = this.layerOf(path, true);
+    if (layer.stat(path).filetype === WASIAbi.WASI_FILETYPE_DIRECTORY) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${path}" is a directory`);
+    }
+    this.assertWritable(path);
+    if (layer === this.upper) this.upper.unlink(path);
+    this.hide(path);
+  }
+
+  /**
+   * Moves an entry, copying it and everything below it up first.
+   * @throws {FileSystemError} If the source is missing or cannot replace the destination
+   */
+  rename(oldPath: string, newPath: string): void {
+    const source = this.stat(oldPath);
+    this.assertWritable(oldPath);
+    if (joinPath(splitPath(oldPath)) === joinPath(splitPath(newPath))) return;
+    this.assertWritable(newPath);
+    const existing = this.layerOf(newPath) ? this.stat(newPath) : null;
+    const isDir = source.filetype === WASIAbi.WASI_FILETYPE_DIRECTORY;
+    if (existing) {
+      if (isDir && existing.filetype !== WASIAbi.WASI_FILETYPE_DIRECTORY) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${newPath}" is not a directory`);
+      }
+      if (!isDir && existing.filetype === WASIAbi.WASI_FILETYPE_DIRECTORY) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, `"${newPath}" is a directory`);
+      }
+      if (isDir && this.readdir(newPath).length > 0) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTEMPTY, `"${newPath}" is not empty`);
+      }
+    }
+
+    this.copyUpTree(oldPath);
+    this.prepareCreate(newPath);
+    this.upper.rename(oldPath, newPath);
+    this.hide(oldPath);
+    // The copied tree is complete, so nothing of a lower directory at the destination may show through.
+    if (isDir) this.opaque.add(joinPath(splitPath(newPath)));
+  }
+
+  symlink(target: string, path: string): void {
+    if (this.layerOf(path)) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${path}" already exists`);
+    }
+    this.assertWritable(path);
+    this.prepareCreate(path);
+    this.upper.symlink(target, path);
+  }
+
+  readlink(path: string): string {
+    return this.layerOf(path, true).readlink(path);
+  }
+
+  link(existingPath: string, newPath: string): void {
+    if (this.layerOf(existingPath, true) === this.lower) this.copyUp(existingPath);
+    if (this.layerOf(newPath)) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_EXIST, `"${newPath}" already exists`);
+    }
+    this.assertWritable(newPath);
+    this.prepareCreate(newPath);
+    this.upper.link(existingPath, newPath);
+  }
+
+  sync(handle: number): void {
+    const open = this.getHandle(handle);
+    open.layer.sync(open.handle);
+  }
+
+  datasync(handle: number): void {
+    const open = this.getHandle(handle);
+    open.layer.datasync(open.handle);
+  }
+
+  standardStream(handle: number): "stdin" | "stdout" | "stderr" | "tty" | null {
+    const open = this.getHandle(handle);
+    return open.layer.standardStream(open.handle);
+  }
+
+  /**
+   * Finds the layer an entry is visible in.
+   * @param required Throw instead of returning null when the entry does not exist
+   * @returns The upper layer if the entry was created or copied up, otherwise the lower one
+   */
+  private layerOf(path: string, required: true): MemoryFileSystem;
+  private layerOf(path: string, required?: boolean): MemoryFileSystem | null;
+  private layerOf(path: string, required = false): MemoryFileSystem | null {
+    if (this.upper.lookup(path, { followSymlinks: false })) return this.upper;
+    if (this.showsLower(path) && this.lower.lookup(path, { followSymlinks: false })) return this.lower;
+    if (required) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${path}" does not exist`);
+    }
+    return null;
+  }
+
+  /**
+   * Checks whether the lower entry at a path is visible, that is neither it
+   * nor a parent was deleted, and no parent is an opaque directory.
+   */
+  private showsLower(path: string): boolean {
+    const parts = splitPath(path);
+    for (let i = 0; i <= parts.length; i++) {
+      const prefix = joinPath(parts.slice(0, i));
+      if (this.whiteouts.has(prefix)) return false;
+      if (i < parts.length && this.opaque.has(prefix)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Records that an entry was removed, hiding any lower entry at its path.
+   */
+  private hide(path: string): void {
+    const normalized = joinPath(splitPath(path));
+    for (const set of [this.whiteouts, this.opaque]) {
+      for (const entry of set) {
+        if (entry.startsWith(`${normalized}/`)) set.delete(entry);
+      }
+    }
+    this.opaque.delete(normalized);
+    if (this.lower.lookup(normalized, { followSymlinks: false })) this.whiteouts.add(normalized);
+  }
+
+  /**
+   * Prepares the upper layer for creating an entry: copies its parent
+   * directories up and removes the whiteout at its path.
+   * @throws {FileSystemError} If a parent does not exist or is not a directory
+   */
+  private prepareCreate(path: string): void {
+    const parts = splitPath(path);
+    for (let i = 1; i < parts.length; i++) {
+      const parent = joinPath(parts.slice(0, i));
+      const layer = this.layerOf(parent);
+      if (!layer) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `Parent of "${path}" does not exist`);
+      }
+      if (layer.stat(parent).filetype !== WASIAbi.WASI_FILETYPE_DIRECTORY) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `Parent of "${path}" is not a directory`);
+      }
+      if (layer === this.lower) this.copyUp(parent);
+    }
+    this.whiteouts.delete(joinPath(parts));
+  }
+
+  /**
+   * Copies a lower entry to the upper layer. Directories are copied empty.
+   */
+  private copyUp(path: string): void {
+    const node = this.lower.lookup(path, { followSymlinks: false });
+    if (!node) return;
+    this.prepareCreate(path);
+
+    switch (node.type) {
+      case "dir":
+        this.upper.setNode(path, { type: "dir", entries: {}, readOnly: node.readOnly, ...getFileTimes(node) });
+        break;
+      case "file":
+        this.upper.setNode(path, {
+          type: "file",
+          // Blobs are immutable and can be shared.
+          content: node.content instanceof Blob ? node.content : node.content.slice(),
+          readOnly: node.readOnly,
+          // A lazy file that is not loaded yet is loaded again by the copy.
+          loader: node.loader,
+          source: node.source,
+          sizeHint: node.sizeHint,
+          ...getFileTimes(node),
+        });
+        break;
+      default:
+        this.upper.setNode(path, { ...node });
+    }
+  }
+
+  /**
+   * Copies a lower entry and every visible entry below it to the upper layer.
+   */
+  private copyUpTree(path: string): void {
+    if (this.layerOf(path, true) === this.lower) this.copyUp(path);
+    if (this.upper.lookup(path, { followSymlinks: false })?.type !== "dir") return;
+    for (const name of this.readdir(path)) {
+      this.copyUpTree(this.childPath(path, name));
+    }
+  }
+
+  /**
+   * Rejects changing an entry, or creating or removing one, in a read-only
+   * tree, as the lower file system itself would. Copied-up entries keep their
+   * flags, so each part of the path is checked in the layer it is visible in.
+   * @throws {FileSystemError} EACCES for a read-only file, EROFS for a read-only directory
+   */
+  private assertWritable(path: string): void {
+    const parts = splitPath(path);
+    for (let i = 0; i <= parts.length; i++) {
+      const prefix = joinPath(parts.slice(0, i));
+      // Both layers have a root, and the shared one decides.
+      const layer = i === 0 ? this.lower : this.layerOf(prefix);
+      const node = layer?.lookup(prefix, { followSymlinks: false });
+      if (node?.type === "dir" && node.readOnly) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_ROFS, "Read-only file system");
+      }
+      if (i === parts.length && node?.type === "file" && node.readOnly) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_ACCES, "File is read-only");
+      }
+    }
+  }
+
+  /**
+   * Keeps the inode numbers of the two layers apart, as both count from 1.
+   */
+  private withInode(layer: MemoryFileSystem, stat: FileStat): FileStat {
+    return layer === this.lower ? { ...stat, ino: stat.ino | LOWER_INODE_BIT } : stat;
+  }
+
+  private childPath(path: string, name: string): string {
+    return joinPath([...splitPath(path), name]);
+  }
+
+  private getHandle(handle: number): { layer: MemoryFileSystem; handle: number; path: string } {
+    const open = this.handles.get(handle);
+    if (!open) throw new FileSystemError(WASIAbi.WASI_ERRNO_BADF, `Bad handle ${handle}`);
+    return open;
+  }
+
+  /**
+   * Gets an open file that may be modified, which is never one of the lower layer.
+   */
+  private getWritableHandle(handle: number): { layer: MemoryFileSystem; handle: number; path: string } {
+    const open = this.getHandle(handle);
+    if (open.layer === this.lower) {
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_BADF, `Handle ${handle} is not open for writing`);
+    }
+    return open;
+  }
+}
+
+/**
+ * A file system made available at a guest path.
+ */
+interface Mount {
+  /** Components of the guest path. */
+  path: string[];
+  backend: FileSystemBackend;
+}
+
+interface MountOpenFileBase {
+  fdflags: number;
+  rightsBase: bigint;
+  rightsInheriting: bigint;
+}
+
+/**
+ * A descriptor of the file systems of `useMounts`, `useFS` and `useMemoryFS`.
+ */
+type MountOpenFile =
+  | (MountOpenFileBase & {
+      kind: "device";
+      entry: FdEntry;
+      /** Whether this is a standard stream, which stays open when closed. */
+      standard?: boolean;
+    })
+  | (MountOpenFileBase & {
+      kind: "dir";
+      /** Components of the guest path of the directory. */
+      path: string[];
+      /** Components of the guest path of the preopen the directory was opened from. */
+      root: string[];
+      preopenPath?: string;
+      /** Whether the directory was removed, so that paths are not resolved in a new one at its path. */
+      removed?: boolean;
+      /**
+       * Snapshot of the directory entry names taken when a directory stream is
+       * (re)started, so that `fd_readdir` cookies stay stable while it is read.
+       */
+      dirEntries?: string[];
+    })
+  | (MountOpenFileBase & {
+      kind: "file";
+      mount: Mount;
+      handle: number;
+      position: number;
+      /** Whether the file is a device of the backend, which cannot seek. */
+      device: boolean;
+    });
+
+type MountDirectory = Extract<MountOpenFile, { kind: "dir" }>;
+
+/**
+ * Metadata reported for devices.
+ */
+const DEVICE_STAT: FileStat = {
+  filetype: WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE,
+  ino: 0n,
+  nlink: 1n,
+  size: 0n,
+  atim: 0n,
+  mtim: 0n,
+  ctim: 0n,
+};
+
+/**
+ * Metadata reported for directories that are not provided by a mount, such
+ * as `/dev` and the parents of mount points.
+ */
+const VIRTUAL_DIRECTORY_STAT: FileStat = { ...DEVICE_STAT, filetype: WASIAbi.WASI_FILETYPE_DIRECTORY };
+
+/**
+ * Discards writes and reads as empty, like `/dev/null`.
+ */
+const nullDevice: FdEntry = {
+  writev: (iovs) => iovs.reduce((total, iov) => total + iov.byteLength, 0),
+  readv: () => 0,
+  close: () => {},
+};
+
+/**
+ * Reads as zeros and discards writes, like `/dev/zero`.
+ */
+const zeroDevice: FdEntry = {
+  writev: (iovs) => iovs.reduce((total, iov) => total + iov.byteLength, 0),
+  readv: (iovs) => {
+    for (const iov of iovs) iov.fill(0);
+    return iovs.reduce((total, iov) => total + iov.byteLength, 0);
+  },
+  close: () => {},
+};
+
+/**
+ * Reads random bytes from `crypto` and discards writes, like `/dev/urandom`.
+ */
+const randomDevice: FdEntry = {
+  writev: (iovs) => iovs.reduce((total, iov) => total + iov.byteLength, 0),
+  readv: (iovs) => {
+    for (const iov of iovs) {
+      // getRandomValues fills at most 65536 bytes per call.
+      for (let offset = 0; offset < iov.byteLength; offset += 65536) {
+        crypto.getRandomValues(iov.subarray(offset, offset + 65536));
       }
-
-      current = next;
     }
+    return iovs.reduce((total, iov) => total + iov.byteLength, 0);
+  },
+  close: () => {},
+};
 
-    const fileNode: FileNode = { type: "file", content: new Uint8Array(0) };
-    current.entries[fileName] = fileNode;
-    return fileNode;
-  }
-
-  /**
-   * Normalizes a path by removing duplicate slashes and trailing slashes.
-   * @param path Path to normalize
-   * @returns Normalized path
-   */
-  private normalizePath(path: string): string {
-    // Handle empty path
-    if (!path) return "/";
-
-    // Ensure path starts with a slash
-    const withLeadingSlash = path.startsWith("/") ? path : `/${path}`;
+/**
+ * Devices of the `/dev` directory `useMounts` provides when no mount covers it.
+ * The zeroperl interpreter opens `/dev/null` on startup.
+ */
+const MOUNT_DEVICES: Record<string, FdEntry> = { null: nullDevice };
 
-    // Remove duplicate slashes and normalize
-    const normalized = withLeadingSlash.replace(/\/+/g, "/");
+/**
+ * Splits a path into its components, dropping empty and `.` components.
+ */
+function splitPath(path: string): string[] {
+  return path.split("/").filter((p) => p.length > 0 && p !== ".");
+}
 
-    // Remove trailing slash unless it's the root path
-    return normalized === "/" ? normalized : normalized.replace(/\/+$/, "");
-  }
+function joinPath(parts: string[]): string {
+  return `/${parts.join("/")}`;
 }
 
 /**
- * Creates a feature provider that implements a complete in-memory file system.
- *
- * This provides implementations for all file descriptor and path-related WASI
- * functions, including `fd_read`, `fd_write`, `fd_seek`, `fd_tell`, `fd_close`,
- * `path_open`, and more to support a full featured file system environment.
+ * Creates a feature provider that maps the preopened directories of
+ * `WASIOptions.preopens` onto directories of the host, through a
+ * `node:fs`-compatible module.
  *
- * ```js
- * const wasi = new WASI({
- *   features: [useMemoryFS()],
- * });
- * ```
- *
- * You can provide a pre-configured file system instance:
+ * It implements the file descriptor and path functions of `useMounts`. Every path is resolved inside the
+ * preopen it is opened from: `..` components and symbolic links that would
+ * leave it fail with `ENOTCAPABLE`, and absolute symbolic links are resolved
+ * as guest paths.
  *
  * ```js
- * const fs = new MemoryFileSystem();
- * fs.addFile("/hello.txt", "Hello, world!");
+ * import * as fs from "node:fs";
  *
  * const wasi = new WASI({
- *   features: [useMemoryFS({ withFileSystem: fs })],
+ *   preopens: { "/project": process.cwd() },
+ *   features: [useFS({ fs })],
  * });
  * ```
+ */
+export function useFS(useOptions: {
+  fs: NodeFS;
+  withStdIo?: StdIoOptions;
+}): WASIFeatureProvider {
+  return (wasiOptions: WASIOptions, abi: WASIAbi, memoryView: () => DataView) => {
+    const mounts: Record<string, FileSystemBackend> = {};
+    for (const [guestPath, hostPath] of Object.entries(wasiOptions.preopens ?? {})) {
+      mounts[guestPath] = new HostFileSystem(useOptions.fs, hostPath);
+    }
+    return useMounts({ mounts, withStdIo: useOptions.withStdIo })(wasiOptions, abi, memoryView);
+  };
+}
+
+/**
+ * Creates a feature provider that combines file systems into one tree, each
+ * made available at its own guest path and preopened there.
  *
- * You can also combine it with standard IO:
+ * Paths are resolved here, and every operation is dispatched to the backend
+ * of the mount it falls into, the one with the longest matching guest path.
+ * Paths cannot leave the preopen they are opened from, and entries cannot be
+ * renamed or linked across mounts. A read-only `/dev` with `/dev/null` is
+ * provided unless a mount covers it.
  *
  * ```js
+ * const lib = new MemoryFileSystem();
+ * lib.addFile("/Greeting.pm", "package Greeting; 1;");
+ * lib.setReadonly("/");
+ *
  * const wasi = new WASI({
  *   features: [
- *     useMemoryFS({
- *       withStdIo: {
- *         stdout: (lines) => document.write(lines),
- *         stderr: (lines) => document.write(lines),
- *       }
- *     })
+ *     useMounts({
+ *       mounts: {
+ *         "/lib": lib,
+ *         "/work": new HostFileSystem(fs, process.cwd()),
+ *         "/tmp": new MemoryFileSystem(),
+ *       },
+ *     }),
  *   ],
  * });
  * ```
  *
- * @param useOptions - Configuration options for the memory file system
- * @param useOptions.withFileSystem - Optional pre-configured file system instance
- * @param useOptions.withStdIo - Optional standard I/O configuration
- * @returns A WASI feature provider implementing file system functionality
+ * @param useOptions.mounts File systems by guest path
+ * @param useOptions.withStdIo Optional standard I/O configuration
  */
-export function useMemoryFS(
-  useOptions: {
-    withFileSystem?: MemoryFileSystem;
-    withStdIo?: StdIoOptions;
-  } = {}
-): WASIFeatureProvider {
-  return (
-    wasiOptions: WASIOptions,
-    abi: WASIAbi,
-    memoryView: () => DataView
-  ) => {
-    const fileSystem =
-      useOptions.withFileSystem || new MemoryFileSystem(wasiOptions.preopens);
-    const files: { [fd: FileDescriptor]: OpenFile } = {};
+export function useMounts(useOptions: {
+  mounts: Record<string, FileSystemBackend>;
+  withStdIo?: StdIoOptions;
+}): WASIFeatureProvider {
+  return useBackends({
+    mounts: useOptions.mounts,
+    preopens: Object.keys(useOptions.mounts),
+    withStdIo: useOptions.withStdIo,
+  });
+}
 
-    function getFileTimes(node: FSNode): { atim: bigint; mtim: bigint; ctim: bigint } {
-      if (node.type === "file" && node.content instanceof Blob) {
-        const mtimNs = BigInt((node.content as File).lastModified ?? Date.now()) * 1_000_000n;
-        return { atim: mtimNs, mtim: mtimNs, ctim: mtimNs };
-      }
-      return { atim: 0n, mtim: 0n, ctim: 0n };
+/**
+ * Creates a feature provider implementing the file descriptor and path
+ * functions over file systems mounted at guest paths, for `useMounts`,
+ * `useFS` and `useMemoryFS`.
+ * @param useOptions.mounts File systems by guest path
+ * @param useOptions.preopens Guest paths of the directories to preopen, in descriptor order
+ * @param useOptions.withStdIo Optional standard I/O configuration
+ */
+function useBackends(useOptions: {
+  mounts: Record<string, FileSystemBackend>;
+  preopens: string[];
+  withStdIo?: StdIoOptions;
+}): WASIFeatureProvider {
+  return (_wasiOptions: WASIOptions, abi: WASIAbi, memoryView: () => DataView) => {
+    const files: { [fd: FileDescriptor]: MountOpenFile } = {};
+    const mounts: Mount[] = [];
+
+    /**
+     * Registers a descriptor under the lowest free number, so that closed
+     * descriptors are recycled like on POSIX systems.
+     */
+    function allocateFd(file: MountOpenFile): FileDescriptor {
+      let fd = 0;
+      while (files[fd]) fd++;
+      files[fd] = file;
+      return fd;
     }
 
-    bindStdio(useOptions.withStdIo || {}).forEach((entry, fd) => {
+    const stdio = bindStdio(useOptions.withStdIo || {});
+    stdio.forEach((entry, fd) => {
       files[fd] = {
-        node: { type: "character", kind: "stdio", entry },
-        position: 0,
-        isPreopen: false,
-        path: `/dev/fd/${fd}`,
-        fd,
+        kind: "device",
+        entry,
+        standard: true,
+        fdflags: 0,
+        rightsBase: WASIAbi.WASI_RIGHTS_ALL,
+        rightsInheriting: WASIAbi.WASI_RIGHTS_ALL,
       };
     });
 
-    let nextFd = 3;
-    for (const preopenPath of fileSystem.getPreopenPaths()) {
-      const node = fileSystem.lookup(preopenPath);
-      if (node && node.type === "dir") {
-        files[nextFd] = {
-          node,
-          position: 0,
-          isPreopen: true,
-          preopenPath,
-          path: preopenPath,
-          fd: nextFd,
-        };
-        nextFd++;
+    for (const [guestPath, backend] of Object.entries(useOptions.mounts)) {
+      mounts.push({ path: splitPath(guestPath), backend });
+    }
+    const provideDevices = !mounts.some((mount) => mount.path.length === 0 || mount.path[0] === "dev");
+
+    /**
+     * Gets the rights a descriptor may hold on an entry, without the mutating
+     * rights when the entry is read-only. Devices can always be written.
+     */
+    function allowedRights(stat: FileStat | null): bigint {
+      if (!stat?.readonly || stat.filetype === WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE) {
+        return WASIAbi.WASI_RIGHTS_ALL;
       }
+      return WASIAbi.WASI_RIGHTS_ALL & ~MUTATING_RIGHTS;
     }
 
-    function getFileFromPath(guestPath: string): OpenFile | null {
-      for (const fd in files) {
-        const file = files[fd];
-        if (file?.path === guestPath) return file;
+    for (const preopenPath of useOptions.preopens) {
+      const path = splitPath(preopenPath);
+      let rights = WASIAbi.WASI_RIGHTS_ALL;
+      try {
+        rights = allowedRights(lstat(path));
+      } catch (error) {
+        // A preopen that cannot be read yet fails when it is used instead.
+        toErrno(error);
       }
-      return null;
+      allocateFd({
+        kind: "dir",
+        path,
+        root: path,
+        preopenPath: joinPath(path),
+        fdflags: 0,
+        rightsBase: rights,
+        rightsInheriting: rights,
+      });
     }
 
-    function getFileFromFD(fileDescriptor: FileDescriptor): OpenFile | null {
-      const file = files[fileDescriptor];
-      return file || null;
+    if (provideDevices) {
+      allocateFd({
+        kind: "dir",
+        path: ["dev"],
+        root: ["dev"],
+        preopenPath: "/dev",
+        fdflags: 0,
+        rightsBase: WASIAbi.WASI_RIGHTS_ALL,
+        rightsInheriting: WASIAbi.WASI_RIGHTS_ALL,
+      });
     }
 
-    function getFileSize(file: FileNode): number {
-      if (file.content instanceof Blob) {
-        return file.content.size;
-      }
-      return file.content.byteLength;
+    function isDevicePath(parts: string[]): boolean {
+      return provideDevices && parts[0] === "dev";
     }
 
-    return {
-      fd_read: async (
-        fd: number,
-        iovs: number,
-        iovsLen: number,
-        nread: number
-      ) => {
-        const view = memoryView();
-        const iovViews = abi.iovViews(view, iovs, iovsLen);
-        const file = getFileFromFD(fd);
-        if (!file) {
-          return WASIAbi.WASI_ERRNO_BADF;
-        }
+    function hasRights(file: MountOpenFile, rights: bigint): boolean {
+      return (file.rightsBase & rights) === rights;
+    }
 
-        if (file.node.type === "character" && file.node.kind === "stdio") {
-          const bytesRead = file.node.entry.readv(iovViews);
-          view.setUint32(nread, bytesRead, true);
-          return WASIAbi.WASI_ESUCCESS;
+    /**
+     * Finds the mount containing a guest path.
+     * @returns The mount and the path inside it
+     */
+    function locate(parts: string[]): { mount: Mount; path: string } {
+      if (isDevicePath(parts)) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_ROFS, `"${joinPath(parts)}" is a device`);
+      }
+      let best: Mount | undefined;
+      for (const mount of mounts) {
+        const contains = mount.path.every((part, i) => parts[i] === part);
+        if (contains && mount.path.length <= parts.length && (!best || mount.path.length > best.path.length)) {
+          best = mount;
         }
+      }
+      if (!best) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, `"${joinPath(parts)}" is not mounted`);
+      }
+      return { mount: best, path: joinPath(parts.slice(best.path.length)) };
+    }
 
-        if (file.node.type === "dir") {
-          return WASIAbi.WASI_ERRNO_ISDIR;
-        }
+    function isMountPoint(parts: string[]): boolean {
+      return mounts.some((mount) => joinPath(mount.path) === joinPath(parts));
+    }
 
-        if (file.node.type === "character" && file.node.kind === "devnull") {
-          view.setUint32(nread, 0, true);
-          return WASIAbi.WASI_ESUCCESS;
+    /**
+     * Gets the names of the entries of a directory that lead to mount points below it.
+     */
+    function mountNamesBelow(parts: string[]): string[] {
+      const names = new Set<string>();
+      for (const mount of mounts) {
+        if (mount.path.length > parts.length && parts.every((part, i) => mount.path[i] === part)) {
+          names.add(mount.path[parts.length] as string);
         }
+      }
+      return [...names];
+    }
 
-        const fileNode = file.node;
-        const data = fileNode.content;
-        const available = getFileSize(fileNode) - file.position;
+    /**
+     * Gets the metadata of the entry at a guest path, without following a final symbolic link.
+     * @returns The metadata, `VIRTUAL_DIRECTORY_STAT` for a directory no mount provides, or null if the entry does not exist
+     */
+    function lstat(parts: string[]): FileStat | null {
+      if (isDevicePath(parts)) {
+        if (parts.length === 1) return VIRTUAL_DIRECTORY_STAT;
+        if (parts.length === 2 && MOUNT_DEVICES[parts[1] as string]) return DEVICE_STAT;
+        return null;
+      }
 
-        let totalRead = 0;
-        if (available <= 0) {
-          view.setUint32(nread, 0, true);
-          return WASIAbi.WASI_ESUCCESS;
+      // Directories leading to a mount point exist even where no mount provides them.
+      const leadsToMount = mountNamesBelow(parts).length > 0;
+      try {
+        const { mount, path } = locate(parts);
+        return mount.backend.stat(path);
+      } catch (error) {
+        const errno = error instanceof FileSystemError ? error.errno : undefined;
+        if (errno === WASIAbi.WASI_ERRNO_NOENT || (errno === WASIAbi.WASI_ERRNO_NOTCAPABLE && leadsToMount)) {
+          return leadsToMount ? VIRTUAL_DIRECTORY_STAT : null;
         }
+        throw error;
+      }
+    }
 
-        if (fileNode.content instanceof Blob) {
-          const blob = fileNode.content;
-          for (const buf of iovViews) {
-            if (file.position >= blob.size) break;
-            const bytesToRead = Math.min(
-              buf.byteLength,
-              blob.size - file.position
-            );
-            if (bytesToRead <= 0) break;
-            const chunk = await blob
-              .slice(file.position, file.position + bytesToRead)
-              .arrayBuffer();
-            buf.set(new Uint8Array(chunk));
-            totalRead += chunk.byteLength;
-            file.position += chunk.byteLength;
-          }
-        } else if (ArrayBuffer.isView(data)) {
-          for (const buf of iovViews) {
-            if (file.position >= data.byteLength) break;
-            const bytesToRead = Math.min(
-              buf.byteLength,
-              data.byteLength - file.position
-            );
-            if (bytesToRead <= 0) break;
-            buf.set(data.slice(file.position, file.position + bytesToRead));
-            totalRead += bytesToRead;
-            file.position += bytesToRead;
+    /**
+     * Resolves a path relative to a directory descriptor to a guest path,
+     * following symbolic links without leaving the preopen of the descriptor.
+     * Empty and `.` components of the path are dropped and its `..` components
+     * are applied lexically, so that `./a`, `a//b/` and `x/../a` all name the
+     * same entry.
+     * @returns The components of the resolved guest path, whose last entry may not exist
+     * @throws {FileSystemError} If the path leaves the preopen, a parent is missing or links loop
+     */
+    function resolvePath(dir: MountDirectory, relativePath: string, followFinal: boolean): string[] {
+      if (dir.removed) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${relativePath}" is in a removed directory`);
+      }
+      const root = dir.root;
+      // Components above the descriptor's directory, and the path below the directory resolved from.
+      let up = 0;
+      const pending: string[] = [];
+      for (const part of relativePath.split("/")) {
+        if (part === "" || part === ".") continue;
+        if (part !== "..") {
+          pending.push(part);
+        } else if (pending.length > 0) {
+          pending.pop();
+        } else {
+          up++;
+        }
+      }
+      if (dir.path.length - up < root.length) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, `"${relativePath}" leaves its preopen`);
+      }
+      const resolved = dir.path.slice(0, dir.path.length - up);
+      let links = 0;
+
+      while (pending.length > 0) {
+        const part = pending.shift() as string;
+        if (part === ".") continue;
+        if (part === "..") {
+          if (resolved.length <= root.length) {
+            throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, `"${relativePath}" leaves its preopen`);
           }
+          resolved.pop();
+          continue;
         }
 
-        view.setUint32(nread, totalRead, true);
-        return WASIAbi.WASI_ESUCCESS;
-      },
+        resolved.push(part);
+        const isFinal = pending.every((p) => p === ".");
+        if (isFinal && !followFinal) break;
 
-      fd_write: (
-        fd: number,
-        iovs: number,
-        iovsLen: number,
-        nwritten: number
-      ) => {
-        const view = memoryView();
-        const iovViews = abi.iovViews(view, iovs, iovsLen);
-        const file = getFileFromFD(fd);
-        if (!file) return WASIAbi.WASI_ERRNO_BADF;
-        let totalWritten = 0;
-
-        if (file.node.type === "character" && file.node.kind === "stdio") {
-          const bytesWritten = file.node.entry.writev(iovViews);
-          view.setUint32(nwritten, bytesWritten, true);
-          return WASIAbi.WASI_ESUCCESS;
+        const stat = lstat(resolved);
+        if (!stat) {
+          if (isFinal) break;
+          throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${joinPath(resolved)}" does not exist`);
         }
 
-        if (file.node.type === "dir") return WASIAbi.WASI_ERRNO_ISDIR;
-
-        if (file.node.type === "character" && file.node.kind === "devnull") {
-          const total = iovViews.reduce((acc, buf) => acc + buf.byteLength, 0);
-          view.setUint32(nwritten, total, true);
-          return WASIAbi.WASI_ESUCCESS;
+        if (stat.filetype === WASIAbi.WASI_FILETYPE_SYMBOLIC_LINK) {
+          if (++links > MAX_SYMLINK_DEPTH) {
+            throw new FileSystemError(WASIAbi.WASI_ERRNO_LOOP, `Too many symbolic links in "${relativePath}"`);
+          }
+          const { mount, path } = locate(resolved);
+          const target = mount.backend.readlink(path);
+          resolved.pop();
+          const targetParts = target.split("/").filter((p) => p.length > 0);
+          if (target.startsWith("/")) {
+            // Absolute targets are guest paths, and must stay inside the preopen too.
+            const normalized = resolveDots(targetParts);
+            if (!normalized || !root.every((p, i) => normalized[i] === p)) {
+              throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, `"${target}" leaves its preopen`);
+            }
+            resolved.splice(0, resolved.length, ...root);
+            pending.unshift(...normalized.slice(root.length));
+          } else {
+            pending.unshift(...targetParts);
+          }
+          continue;
         }
 
-        if (file.node.content instanceof Blob) {
-          return WASIAbi.WASI_ERRNO_INVAL;
+        if (!isFinal && stat.filetype !== WASIAbi.WASI_FILETYPE_DIRECTORY) {
+          throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `"${joinPath(resolved)}" is not a directory`);
         }
+      }
 
-        let pos = file.position;
-        const dataToWrite = iovViews.reduce(
-          (acc, buf) => acc + buf.byteLength,
-          0
-        );
-        const requiredLength = pos + dataToWrite;
-        let newContent: Uint8Array;
+      return resolved;
+    }
 
-        if (requiredLength > getFileSize(file.node)) {
-          newContent = new Uint8Array(requiredLength);
-          newContent.set(file.node.content, 0);
+    /**
+     * Applies `.` and `..` components of an absolute path lexically.
+     * @returns The remaining components, or null if the path leaves the root
+     */
+    function resolveDots(parts: string[]): string[] | null {
+      const result: string[] = [];
+      for (const part of parts) {
+        if (part === ".") continue;
+        if (part === "..") {
+          if (result.length === 0) return null;
+          result.pop();
         } else {
-          newContent = file.node.content;
+          result.push(part);
         }
+      }
+      return result;
+    }
 
-        for (const buf of iovViews) {
-          newContent.set(buf, pos);
-          pos += buf.byteLength;
-          totalWritten += buf.byteLength;
-        }
+    /**
+     * Gets the directory descriptor a path is relative to.
+     * @param rights Rights the descriptor needs for the operation
+     * @throws {FileSystemError} ENOTCAPABLE if the descriptor lacks one of the rights
+     */
+    function getDirectory(fd: FileDescriptor, rights = 0n): MountDirectory {
+      const file = files[fd];
+      if (!file) throw new FileSystemError(WASIAbi.WASI_ERRNO_BADF, `Bad file descriptor ${fd}`);
+      if (file.kind !== "dir") {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTDIR, `File descriptor ${fd} is not a directory`);
+      }
+      assertDirectoryRights(file, rights);
+      return file;
+    }
 
-        file.node.content = newContent;
-        file.position = pos;
-        view.setUint32(nwritten, totalWritten, true);
-        return WASIAbi.WASI_ESUCCESS;
-      },
+    /**
+     * Checks that a directory descriptor has the rights for an operation.
+     * @throws {FileSystemError} EROFS if the directory is read-only, which is why
+     * descriptors of it lack rights to change it, otherwise ENOTCAPABLE
+     */
+    function assertDirectoryRights(dir: MountDirectory, rights: bigint): void {
+      if (hasRights(dir, rights)) return;
+      if (!dir.removed && lstat(dir.path)?.readonly) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_ROFS, "Read-only file system");
+      }
+      throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, "Descriptor lacks the rights for the operation");
+    }
 
-      fd_close: (fd: number) => {
-        const file = getFileFromFD(fd);
-        if (!file) return WASIAbi.WASI_ERRNO_BADF;
+    function readPath(pathPtr: number, pathLen: number): string {
+      return abi.readString(memoryView(), pathPtr, pathLen);
+    }
 
-        if (file.node.type === "character" && file.node.kind === "stdio") {
-          file.node.entry.close();
-          return WASIAbi.WASI_ESUCCESS;
+    function statOpenFile(file: MountOpenFile): FileStat {
+      switch (file.kind) {
+        case "device":
+          return DEVICE_STAT;
+        case "dir": {
+          const stat = file.removed ? null : lstat(file.path);
+          if (!stat) {
+            throw new FileSystemError(WASIAbi.WASI_ERRNO_NOENT, `"${joinPath(file.path)}" does not exist`);
+          }
+          return stat;
         }
+        case "file":
+          return file.mount.backend.fstat(file.handle);
+      }
+    }
 
-        delete files[fd];
-        return WASIAbi.WASI_ESUCCESS;
-      },
+    function writeStat(buf: number, stat: FileStat): void {
+      abi.writeFilestat(
+        memoryView(),
+        buf,
+        stat.filetype,
+        stat.size,
+        stat.atim,
+        stat.mtim,
+        stat.ctim,
+        stat.ino,
+        stat.nlink
+      );
+    }
 
-      fd_seek: (fd: number, offset: bigint, whence: number, newOffsetPtr: number) => {
-        const view = memoryView();
+    /**
+     * Computes new access and modification times from `fstflags`.
+     * @returns The new times, or null if the flags are invalid
+     */
+    function newTimes(
+      stat: FileStat,
+      atim: bigint,
+      mtim: bigint,
+      fstFlags: number
+    ): { atim: bigint; mtim: bigint } | null {
+      const setAtim = (fstFlags & WASIAbi.WASI_FSTFLAGS_ATIM) !== 0;
+      const setAtimNow = (fstFlags & WASIAbi.WASI_FSTFLAGS_ATIM_NOW) !== 0;
+      const setMtim = (fstFlags & WASIAbi.WASI_FSTFLAGS_MTIM) !== 0;
+      const setMtimNow = (fstFlags & WASIAbi.WASI_FSTFLAGS_MTIM_NOW) !== 0;
+      if ((setAtim && setAtimNow) || (setMtim && setMtimNow)) return null;
+
+      const now = realtimeNow();
+      return {
+        atim: setAtim ? atim : setAtimNow ? now : stat.atim,
+        mtim: setMtim ? mtim : setMtimNow ? now : stat.mtim,
+      };
+    }
 
-        const file = getFileFromFD(fd);
-        if (!file) return WASIAbi.WASI_ERRNO_BADF;
-
-        if (file.node.type === "dir") return WASIAbi.WASI_ERRNO_ISDIR;
-        if (file.node.type === "character") return WASIAbi.WASI_ERRNO_IO;
-
-        const fileLength = getFileSize(file.node);
-        let newPosition: number;
-
-        switch (whence) {
-          case 0: // WHENCE_SET
-            newPosition = Number(offset);
-            break;
-          case 1: // WHENCE_CUR
-            newPosition = file.position + Number(offset);
-            break;
-          case 2: // WHENCE_END
-            newPosition = fileLength + Number(offset);
-            break;
-          default:
-            return WASIAbi.WASI_ERRNO_INVAL;
-        }
+    /**
+     * Runs a system call, converting thrown `FileSystemError`s to their error number.
+     */
+    function syscall(body: () => number | void): number {
+      try {
+        return body() ?? WASIAbi.WASI_ESUCCESS;
+      } catch (error) {
+        return toErrno(error);
+      }
+    }
 
-        if (newPosition < 0) {
-          return WASIAbi.WASI_ERRNO_INVAL;
+    function pathOpen(
+      dirfd: number,
+      dirflags: number,
+      pathPtr: number,
+      pathLen: number,
+      oflags: number,
+      fs_rights_base: bigint,
+      fs_rights_inheriting: bigint,
+      fdflags: number,
+      opened_fd: number
+    ): number {
+      return syscall(() => {
+        const dir = getDirectory(dirfd, WASIAbi.WASI_RIGHTS_PATH_OPEN);
+        const path = readPath(pathPtr, pathLen);
+        const rightsBase = fs_rights_base & dir.rightsInheriting;
+        const rightsInheriting = fs_rights_inheriting & dir.rightsInheriting;
+
+        // O_EXCL never follows a symbolic link in the last component, even a dangling one.
+        const followSymlinks =
+          (dirflags & WASIAbi.WASI_LOOKUPFLAGS_SYMLINK_FOLLOW) !== 0 &&
+          !(oflags & WASIAbi.WASI_OFLAGS_EXCL);
+        const parts = resolvePath(dir, path, followSymlinks);
+        const stat = lstat(parts);
+
+        if (stat) {
+          if (oflags & WASIAbi.WASI_OFLAGS_EXCL) return WASIAbi.WASI_ERRNO_EXIST;
+          if (stat.filetype === WASIAbi.WASI_FILETYPE_SYMBOLIC_LINK) return WASIAbi.WASI_ERRNO_LOOP;
+          if (stat.filetype === WASIAbi.WASI_FILETYPE_DIRECTORY) {
+            if (oflags & WASIAbi.WASI_OFLAGS_TRUNC) return WASIAbi.WASI_ERRNO_ISDIR;
+            const rights = allowedRights(stat);
+            const fd = allocateFd({
+              kind: "dir",
+              path: parts,
+              root: dir.root,
+              fdflags,
+              rightsBase: rightsBase & rights,
+              rightsInheriting: rightsInheriting & rights,
+            });
+            memoryView().setUint32(opened_fd, fd, true);
+            return WASIAbi.WASI_ESUCCESS;
+          }
+          if (oflags & WASIAbi.WASI_OFLAGS_DIRECTORY) return WASIAbi.WASI_ERRNO_NOTDIR;
+          if (isDevicePath(parts)) {
+            const fd = allocateFd({
+              kind: "device",
+              entry: MOUNT_DEVICES[parts[1] as string] as FdEntry,
+              fdflags,
+              rightsBase,
+              rightsInheriting,
+            });
+            memoryView().setUint32(opened_fd, fd, true);
+            return WASIAbi.WASI_ESUCCESS;
+          }
+        } else if (!(oflags & WASIAbi.WASI_OFLAGS_CREAT)) {
+          return WASIAbi.WASI_ERRNO_NOENT;
+        } else {
+          assertDirectoryRights(dir, WASIAbi.WASI_RIGHTS_PATH_CREATE_FILE);
         }
 
-        file.position = newPosition;
-        view.setBigUint64(newOffsetPtr, BigInt(newPosition), true);
-
-        return WASIAbi.WASI_ESUCCESS;
-      },
-
-      fd_tell: (fd: number, offset_ptr: number) => {
-        const view = memoryView();
-
-        const file = getFileFromFD(fd);
-        if (!file) return WASIAbi.WASI_ERRNO_BADF;
-
-        if (file.node.type === "dir") return WASIAbi.WASI_ERRNO_IO;
-        if (file.node.type === "character") return WASIAbi.WASI_ERRNO_IO;
-
-        view.setBigUint64(offset_ptr, BigInt(file.position), true);
-        return WASIAbi.WASI_ESUCCESS;
-      },
-
-      fd_fdstat_get: (fd: number, buf: number) => {
-        const view = memoryView();
-        const file = getFileFromFD(fd);
-        if (!file) return WASIAbi.WASI_ERRNO_BADF;
-
-        let filetype: number;
-        switch (file.node.type) {
-          case "character":
-            filetype = WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE;
-            break;
-          case "dir":
-            filetype = WASIAbi.WASI_FILETYPE_DIRECTORY;
-            break;
-          case "file":
-            filetype = WASIAbi.WASI_FILETYPE_REGULAR_FILE;
-            break;
+        const { mount, path: backendPath } = locate(parts);
+        const { backend } = mount;
+        // Opening for writing fails on read-only files, even through a descriptor without write rights.
+        const write =
+          (fs_rights_base & FILE_WRITE_RIGHTS) !== 0n ||
+          (oflags & WASIAbi.WASI_OFLAGS_TRUNC) !== 0 ||
+          (fdflags & WASIAbi.WASI_FDFLAGS_APPEND) !== 0;
+        const handle = backend.open(backendPath, {
+          read: (rightsBase & WASIAbi.WASI_RIGHTS_FD_READ) !== 0n,
+          write,
+          create: !stat,
+          exclusive: (oflags & WASIAbi.WASI_OFLAGS_EXCL) !== 0,
+          truncate: (oflags & WASIAbi.WASI_OFLAGS_TRUNC) !== 0,
+        });
+
+        const stream = backend.standardStream?.(handle);
+        let fd: FileDescriptor;
+        if (stream) {
+          backend.close(handle);
+          fd = allocateFd({ kind: "device", entry: consoleEntry(stream, stdio), fdflags, rightsBase, rightsInheriting });
+        } else {
+          const rights = allowedRights(stat);
+          fd = allocateFd({
+            kind: "file",
+            mount,
+            handle,
+            position: 0,
+            device: backend.fstat(handle).filetype === WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE,
+            fdflags,
+            rightsBase: rightsBase & rights,
+            rightsInheriting: rightsInheriting & rights,
+          });
         }
+        memoryView().setUint32(opened_fd, fd, true);
+      });
+    }
 
-        const allRights = 0x1fffffffn;
-        abi.writeFdstat(view, buf, filetype, 0, allRights, allRights);
-        return WASIAbi.WASI_ESUCCESS;
-      },
+    async function readFrom(
+      file: MountOpenFile,
+      iovs: number,
+      iovsLen: number,
+      position?: bigint
+    ): Promise<number> {
+      const iovViews = abi.iovViews(memoryView(), iovs, iovsLen);
+      if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_READ)) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, "Descriptor is not readable");
+      }
+      if (file.kind === "dir") throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, "Is a directory");
+      if (position !== undefined && (file.kind === "device" || file.device)) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_SPIPE, "Illegal seek");
+      }
+      if (file.kind === "device") return file.entry.readv(iovViews);
+      // Nothing can be read beyond the largest offset.
+      if (position !== undefined && position > BigInt(Number.MAX_SAFE_INTEGER)) return 0;
+      const bytesRead = await file.mount.backend.read(file.handle, iovViews, Number(position ?? file.position));
+      if (position === undefined) file.position += bytesRead;
+      return bytesRead;
+    }
 
-      fd_filestat_get: (fd: number, buf: number) => {
-        const view = memoryView();
-        const entry = getFileFromFD(fd);
-        if (!entry) return WASIAbi.WASI_ERRNO_BADF;
-
-        let filetype: number;
-        let size = 0;
-        switch (entry.node.type) {
-          case "character":
-            filetype = WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE;
-            break;
-          case "dir":
-            filetype = WASIAbi.WASI_FILETYPE_DIRECTORY;
-            break;
-          case "file":
-            filetype = WASIAbi.WASI_FILETYPE_REGULAR_FILE;
-            size = getFileSize(entry.node);
-            break;
+    function writeTo(file: MountOpenFile, iovs: number, iovsLen: number, position?: bigint): number {
+      const iovViews = abi.iovViews(memoryView(), iovs, iovsLen);
+      if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_WRITE)) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_NOTCAPABLE, "Descriptor is not writable");
+      }
+      if (file.kind === "dir") throw new FileSystemError(WASIAbi.WASI_ERRNO_ISDIR, "Is a directory");
+      if (position !== undefined && (file.kind === "device" || file.device)) {
+        throw new FileSystemError(WASIAbi.WASI_ERRNO_SPIPE, "Illegal seek");
+      }
+      if (file.kind === "device") return file.entry.writev(iovViews);
+      if (position !== undefined) {
+        if (position > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new FileSystemError(WASIAbi.WASI_ERRNO_FBIG, "File too large");
         }
+        return file.mount.backend.write(file.handle, iovViews, Number(position));
+      }
+      const { backend } = file.mount;
+      if (file.fdflags & WASIAbi.WASI_FDFLAGS_APPEND) {
+        if (backend.append) {
+          const bytesWritten = backend.append(file.handle, iovViews);
+          file.position = Number(backend.fstat(file.handle).size);
+          return bytesWritten;
+        }
+        file.position = Number(backend.fstat(file.handle).size);
+      }
+      const bytesWritten = backend.write(file.handle, iovViews, file.position);
+      file.position += bytesWritten;
+      return bytesWritten;
+    }
 
-        const { atim, mtim, ctim } = getFileTimes(entry.node);
-        abi.writeFilestat(view, buf, filetype, BigInt(size), atim, mtim, ctim);
-        return WASIAbi.WASI_ESUCCESS;
-      },
-
-      fd_prestat_get: (fd: number, buf: number) => {
-        const view = memoryView();
-        if (fd < 3) return WASIAbi.WASI_ERRNO_BADF;
+    function getFile(fd: FileDescriptor): MountOpenFile {
+      const file = files[fd];
+      if (!file) throw new FileSystemError(WASIAbi.WASI_ERRNO_BADF, `Bad file descriptor ${fd}`);
+      return file;
+    }
 
-        const file = getFileFromFD(fd);
+    /**
+     * Marks the descriptors of a removed or replaced directory, so that they
+     * do not reach a new directory at the same path.
+     */
+    function detachDirectories(parts: string[]): void {
+      for (const file of Object.values(files)) {
+        if (file.kind === "dir" && file.preopenPath === undefined && joinPath(file.path) === joinPath(parts)) {
+          file.removed = true;
+        }
+      }
+    }
 
-        if (!file || !file.isPreopen) return WASIAbi.WASI_ERRNO_BADF;
+    function closeFile(file: MountOpenFile): void {
+      if (file.kind === "device") file.entry.close();
+      if (file.kind === "file") file.mount.backend.close(file.handle);
+    }
 
-        view.setUint8(buf, 0);
-        const pathStr = file.preopenPath || "";
-        view.setUint32(buf + 4, pathStr.length, true);
-        return WASIAbi.WASI_ESUCCESS;
+    return {
+      fd_read: async (fd: number, iovs: number, iovsLen: number, nread: number) => {
+        try {
+          const bytesRead = await readFrom(getFile(fd), iovs, iovsLen);
+          memoryView().setUint32(nread, bytesRead, true);
+          return WASIAbi.WASI_ESUCCESS;
+        } catch (error) {
+          return toErrno(error);
+        }
       },
 
-      fd_prestat_dir_name: (fd: number, pathPtr: number, pathLen: number) => {
-        if (fd < 3) return WASIAbi.WASI_ERRNO_BADF;
+      fd_write: (fd: number, iovs: number, iovsLen: number, nwritten: number) =>
+        syscall(() => {
+          const bytesWritten = writeTo(getFile(fd), iovs, iovsLen);
+          memoryView().setUint32(nwritten, bytesWritten, true);
+        }),
 
-        const file = getFileFromFD(fd);
-        if (!file || !file.isPreopen) return WASIAbi.WASI_ERRNO_BADF;
-
-        const pathStr = file.preopenPath || "";
-        const view = memoryView();
-        const len = Math.min(pathStr.length, pathLen);
-        for (let i = 0; i < len; i++) {
-          view.setUint8(pathPtr + i, pathStr.charCodeAt(i));
+      fd_pread: async (fd: number, iovs: number, iovsLen: number, offset: bigint, nread: number) => {
+        try {
+          const bytesRead = await readFrom(getFile(fd), iovs, iovsLen, offset);
+          memoryView().setUint32(nread, bytesRead, true);
+          return WASIAbi.WASI_ESUCCESS;
+        } catch (error) {
+          return toErrno(error);
         }
-
-        return WASIAbi.WASI_ESUCCESS;
       },
 
-      fd_open: (
-        dirfd: number,
-        pathPtr: number,
-        pathLen: number,
-        oflags: number,
-        _fs_rights_base: bigint,
-        _fs_rights_inheriting: bigint,
-        _fdflags: number,
-        opened_fd: number
-      ) => {
-        const view = memoryView();
-
-        if (dirfd < 3) return WASIAbi.WASI_ERRNO_NOTDIR;
-
-        const dirEntry = getFileFromFD(dirfd);
-        if (!dirEntry || dirEntry.node.type !== "dir")
-          return WASIAbi.WASI_ERRNO_NOTDIR;
+      fd_pwrite: (fd: number, iovs: number, iovsLen: number, offset: bigint, nwritten: number) =>
+        syscall(() => {
+          const bytesWritten = writeTo(getFile(fd), iovs, iovsLen, offset);
+          memoryView().setUint32(nwritten, bytesWritten, true);
+        }),
+
+      fd_close: (fd: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          // Standard streams stay open, so that output written later is not lost.
+          if (file.kind !== "device" || !file.standard) delete files[fd];
+          // The descriptor is closed even if closing the file fails.
+          closeFile(file);
+        }),
+
+      fd_renumber: (fd: number, to: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          const target = getFile(to);
+          if (fd === to) return;
+
+          files[to] = file;
+          delete files[fd];
+          try {
+            closeFile(target);
+          } catch (error) {
+            // As with dup2, a failure to close the replaced file is not reported.
+            toErrno(error);
+          }
+        }),
+
+      fd_seek: (fd: number, offset: bigint, whence: number, newOffsetPtr: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (file.kind === "dir") return WASIAbi.WASI_ERRNO_ISDIR;
+          if (file.kind === "device" || file.device) return WASIAbi.WASI_ERRNO_IO;
+
+          let base: number;
+          switch (whence) {
+            case 0: // WHENCE_SET
+              base = 0;
+              break;
+            case 1: // WHENCE_CUR
+              base = file.position;
+              break;
+            case 2: // WHENCE_END
+              base = Number(file.mount.backend.fstat(file.handle).size);
+              break;
+            default:
+              return WASIAbi.WASI_ERRNO_INVAL;
+          }
 
-        const path = abi.readString(view, pathPtr, pathLen);
+          const newPosition = base + Number(offset);
+          if (newPosition < 0) return WASIAbi.WASI_ERRNO_INVAL;
+          file.position = newPosition;
+          memoryView().setBigUint64(newOffsetPtr, BigInt(newPosition), true);
+        }),
+
+      fd_tell: (fd: number, offsetPtr: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (file.kind !== "file" || file.device) return WASIAbi.WASI_ERRNO_IO;
+          memoryView().setBigUint64(offsetPtr, BigInt(file.position), true);
+        }),
+
+      fd_fdstat_get: (fd: number, buf: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          const filetype =
+            file.kind === "dir" ? WASIAbi.WASI_FILETYPE_DIRECTORY : statOpenFile(file).filetype;
+          abi.writeFdstat(memoryView(), buf, filetype, file.fdflags, file.rightsBase, file.rightsInheriting);
+        }),
+
+      fd_fdstat_set_flags: (fd: number, flags: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          const knownFlags =
+            WASIAbi.WASI_FDFLAGS_APPEND |
+            WASIAbi.WASI_FDFLAGS_DSYNC |
+            WASIAbi.WASI_FDFLAGS_NONBLOCK |
+            WASIAbi.WASI_FDFLAGS_RSYNC |
+            WASIAbi.WASI_FDFLAGS_SYNC;
+          if (flags & ~knownFlags) return WASIAbi.WASI_ERRNO_INVAL;
+          file.fdflags = flags;
+        }),
+
+      fd_filestat_get: (fd: number, buf: number) =>
+        syscall(() => {
+          writeStat(buf, statOpenFile(getFile(fd)));
+        }),
+
+      fd_filestat_set_size: (fd: number, size: bigint) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_FILESTAT_SET_SIZE)) {
+            return WASIAbi.WASI_ERRNO_NOTCAPABLE;
+          }
+          if (file.kind === "dir") return WASIAbi.WASI_ERRNO_ISDIR;
+          if (file.kind !== "file") return WASIAbi.WASI_ERRNO_INVAL;
+          if (size > BigInt(Number.MAX_SAFE_INTEGER)) return WASIAbi.WASI_ERRNO_FBIG;
+          file.mount.backend.truncate(file.handle, Number(size));
+        }),
+
+      fd_allocate: (fd: number, offset: bigint, len: bigint) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_ALLOCATE)) {
+            return WASIAbi.WASI_ERRNO_NOTCAPABLE;
+          }
+          if (file.kind === "dir") return WASIAbi.WASI_ERRNO_ISDIR;
+          if (file.kind !== "file") return WASIAbi.WASI_ERRNO_INVAL;
+          if (len === 0n) return WASIAbi.WASI_ERRNO_INVAL;
+          const size = offset + len;
+          if (size > BigInt(Number.MAX_SAFE_INTEGER)) return WASIAbi.WASI_ERRNO_FBIG;
+          if (size > file.mount.backend.fstat(file.handle).size) {
+            file.mount.backend.truncate(file.handle, Number(size));
+          }
+        }),
 
-        const guestPath =
-          (dirEntry.path.endsWith("/") ? dirEntry.path : `${dirEntry.path}/`) +
-          path;
+      fd_filestat_set_times: (fd: number, atim: bigint, mtim: bigint, fstFlags: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_FILESTAT_SET_TIMES)) {
+            return WASIAbi.WASI_ERRNO_NOTCAPABLE;
+          }
+          if (file.kind === "device") return;
+
+          const times = newTimes(statOpenFile(file), atim, mtim, fstFlags);
+          if (!times) return WASIAbi.WASI_ERRNO_INVAL;
+          if (file.kind === "file") {
+            file.mount.backend.fsetTimes(file.handle, times.atim, times.mtim);
+          } else {
+            const { mount, path } = locate(file.path);
+            mount.backend.setTimes(path, times.atim, times.mtim);
+          }
+        }),
+
+      fd_sync: (fd: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_SYNC)) return WASIAbi.WASI_ERRNO_NOTCAPABLE;
+          if (file.kind === "file") file.mount.backend.sync(file.handle);
+        }),
+
+      fd_datasync: (fd: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_DATASYNC)) return WASIAbi.WASI_ERRNO_NOTCAPABLE;
+          if (file.kind === "file") file.mount.backend.datasync(file.handle);
+        }),
+
+      fd_readdir: (fd: number, buf: number, bufLen: number, cookie: bigint, bufUsedPtr: number) =>
+        syscall(() => {
+          const file = getFile(fd);
+          if (file.kind !== "dir") return WASIAbi.WASI_ERRNO_NOTDIR;
+          if (!hasRights(file, WASIAbi.WASI_RIGHTS_FD_READDIR)) {
+            return WASIAbi.WASI_ERRNO_NOTCAPABLE;
+          }
 
-        const existing = getFileFromPath(guestPath);
-        if (existing) {
-          view.setUint32(opened_fd, existing.fd, true);
-          return WASIAbi.WASI_ESUCCESS;
-        }
+          if (cookie === 0n || !file.dirEntries) {
+            const names = new Set(mountNamesBelow(file.path));
+            if (isDevicePath(file.path)) {
+              for (const name of Object.keys(MOUNT_DEVICES)) names.add(name);
+            } else if (!file.removed && lstat(file.path) !== VIRTUAL_DIRECTORY_STAT) {
+              const { mount, path } = locate(file.path);
+              for (const name of mount.backend.readdir(path)) names.add(name);
+            }
+            file.dirEntries = [".", "..", ...names];
+          }
+          const names = file.dirEntries;
+
+          const view = memoryView();
+          const output = new Uint8Array(view.buffer, buf, bufLen);
+          let used = 0;
+          for (let index = Number(cookie); index < names.length && used < bufLen; index++) {
+            const name = names[index] as string;
+            let parts = [...file.path, name];
+            if (name === ".") parts = file.path;
+            // The parent of a preopen is reported as the preopen itself.
+            if (name === "..") parts = file.path.length > file.root.length ? file.path.slice(0, -1) : file.path;
+            const stat = file.removed ? null : lstat(parts);
+            // The entry was removed after the directory stream was started.
+            if (!stat) continue;
+
+            const dirent = abi.encodeDirent(BigInt(index + 1), stat.ino, name, stat.filetype);
+            // A truncated final entry tells the caller to retry with a larger buffer.
+            const length = Math.min(dirent.byteLength, bufLen - used);
+            output.set(dirent.subarray(0, length), used);
+            used += length;
+          }
 
-        let target = fileSystem.resolve(dirEntry.node, path);
-        const O_CREAT = 1 << 0;
-        const O_EXCL = 1 << 1;
-        const O_TRUNC = 1 << 2;
+          view.setUint32(bufUsedPtr, used, true);
+        }),
 
-        if (target) {
-          if (oflags & O_EXCL) return WASIAbi.WASI_ERRNO_EXIST;
-          if (oflags & O_TRUNC) {
-            if (target.type !== "file") return WASIAbi.WASI_ERRNO_INVAL;
-            target.content = new Uint8Array(0);
+      fd_prestat_get: (fd: number, buf: number) =>
+        syscall(() => {
+          const file = files[fd];
+          if (!file || file.kind !== "dir" || file.preopenPath === undefined) {
+            return WASIAbi.WASI_ERRNO_BADF;
           }
-        } else {
-          if (!(oflags & O_CREAT)) return WASIAbi.WASI_ERRNO_NOENT;
-          target = fileSystem.createFileIn(dirEntry.node, path);
-        }
-
-        files[nextFd] = {
-          node: target,
-          position: 0,
-          isPreopen: false,
-          path: guestPath,
-          fd: nextFd,
-        };
+          const view = memoryView();
+          view.setUint8(buf, 0);
+          view.setUint32(buf + 4, abi.byteLength(file.preopenPath), true);
+        }),
+
+      fd_prestat_dir_name: (fd: number, pathPtr: number, pathLen: number) =>
+        syscall(() => {
+          const file = files[fd];
+          if (!file || file.kind !== "dir" || file.preopenPath === undefined) {
+            return WASIAbi.WASI_ERRNO_BADF;
+          }
+          const name = new TextEncoder().encode(file.preopenPath);
+          new Uint8Array(memoryView().buffer, pathPtr, pathLen).set(name.subarray(0, pathLen));
+        }),
 
-        view.setUint32(opened_fd, nextFd, true);
-        nextFd++;
-        return WASIAbi.WASI_ESUCCESS;
-      },
+      path_open: pathOpen,
 
-      path_open: (
+      fd_open: (
         dirfd: number,
-        _dirflags: number,
         pathPtr: number,
         pathLen: number,
         oflags: number,
-        _fs_rights_base: bigint,
-        _fs_rights_inheriting: bigint,
-        _fdflags: number,
+        fs_rights_base: bigint,
+        fs_rights_inheriting: bigint,
+        fdflags: number,
         opened_fd: number
-      ) => {
-        const view = memoryView();
-
-        if (dirfd < 3) return WASIAbi.WASI_ERRNO_NOTDIR;
-
-        const dirEntry = getFileFromFD(dirfd);
-        if (!dirEntry || dirEntry.node.type !== "dir")
-          return WASIAbi.WASI_ERRNO_NOTDIR;
-
-        const path = abi.readString(view, pathPtr, pathLen);
-
-        const guestPath =
-          (dirEntry.path.endsWith("/") ? dirEntry.path : `${dirEntry.path}/`) +
-          path;
-
-        const existing = getFileFromPath(guestPath);
-        if (existing) {
-          view.setUint32(opened_fd, existing.fd, true);
-          return WASIAbi.WASI_ESUCCESS;
-        }
-
-        let target = fileSystem.resolve(dirEntry.node as DirectoryNode, path);
-        const O_CREAT = 1 << 0;
-        const O_EXCL = 1 << 1;
-        const O_TRUNC = 1 << 2;
-
-        if (target) {
-          if (oflags & O_EXCL) return WASIAbi.WASI_ERRNO_EXIST;
-          if (oflags & O_TRUNC) {
-            if (target.type !== "file") return WASIAbi.WASI_ERRNO_INVAL;
-            (target as FileNode).content = new Uint8Array(0);
+      ) =>
+        pathOpen(
+          dirfd,
+          WASIAbi.WASI_LOOKUPFLAGS_SYMLINK_FOLLOW,
+          pathPtr,
+          pathLen,
+          oflags,
+          fs_rights_base,
+          fs_rights_inheriting,
+          fdflags,
+          opened_fd
+        ),
+
+      path_filestat_get: (fd: number, flags: number, pathPtr: number, pathLen: number, buf: number) =>
+        syscall(() => {
+          const followSymlinks = (flags & WASIAbi.WASI_LOOKUPFLAGS_SYMLINK_FOLLOW) !== 0;
+          const parts = resolvePath(getDirectory(fd), readPath(pathPtr, pathLen), followSymlinks);
+          const stat = lstat(parts);
+          if (!stat) return WASIAbi.WASI_ERRNO_NOENT;
+          writeStat(buf, stat);
+        }),
+
+      path_filestat_set_times: (
+        fd: number,
+        flags: number,
+        pathPtr: number,
+        pathLen: number,
+        atim: bigint,
+        mtim: bigint,
+        fstFlags: number
+      ) =>
+        syscall(() => {
+          const followSymlinks = (flags & WASIAbi.WASI_LOOKUPFLAGS_SYMLINK_FOLLOW) !== 0;
+          const dir = getDirectory(fd, WASIAbi.WASI_RIGHTS_PATH_FILESTAT_SET_TIMES);
+          const parts = resolvePath(dir, readPath(pathPtr, pathLen), followSymlinks);
+          const stat = lstat(parts);
+          if (!stat) return WASIAbi.WASI_ERRNO_NOENT;
+
+          const times = newTimes(stat, atim, mtim, fstFlags);
+          if (!times) return WASIAbi.WASI_ERRNO_INVAL;
+          const { mount, path } = locate(parts);
+          mount.backend.setTimes(path, times.atim, times.mtim);
+        }),
+
+      path_create_directory: (fd: number, pathPtr: number, pathLen: number) =>
+        syscall(() => {
+          const dir = getDirectory(fd, WASIAbi.WASI_RIGHTS_PATH_CREATE_DIRECTORY);
+          const parts = resolvePath(dir, readPath(pathPtr, pathLen), false);
+          const { mount, path } = locate(parts);
+          mount.backend.mkdir(path);
+        }),
+
+      path_remove_directory: (fd: number, pathPtr: number, pathLen: number) =>
+        syscall(() => {
+          const dir = getDirectory(fd, WASIAbi.WASI_RIGHTS_PATH_REMOVE_DIRECTORY);
+          const parts = resolvePath(dir, readPath(pathPtr, pathLen), false);
+          if (isMountPoint(parts)) return WASIAbi.WASI_ERRNO_BUSY;
+          const { mount, path } = locate(parts);
+          mount.backend.rmdir(path);
+          detachDirectories(parts);
+        }),
+
+      path_unlink_file: (fd: number, pathPtr: number, pathLen: number) =>
+        syscall(() => {
+          const dir = getDirectory(fd, WASIAbi.WASI_RIGHTS_PATH_UNLINK_FILE);
+          const parts = resolvePath(dir, readPath(pathPtr, pathLen), false);
+          const { mount, path } = locate(parts);
+          mount.backend.unlink(path);
+        }),
+
+      path_rename: (
+        oldFd: number,
+        oldPathPtr: number,
+        oldPathLen: number,
+        newFd: number,
+        newPathPtr: number,
+        newPathLen: number
+      ) =>
+        syscall(() => {
+          const oldDir = getDirectory(oldFd, WASIAbi.WASI_RIGHTS_PATH_RENAME_SOURCE);
+          const newDir = getDirectory(newFd, WASIAbi.WASI_RIGHTS_PATH_RENAME_TARGET);
+          const oldParts = resolvePath(oldDir, readPath(oldPathPtr, oldPathLen), false);
+          const newParts = resolvePath(newDir, readPath(newPathPtr, newPathLen), false);
+          if (isMountPoint(oldParts) || isMountPoint(newParts)) return WASIAbi.WASI_ERRNO_BUSY;
+          const source = locate(oldParts);
+          const destination = locate(newParts);
+          if (source.mount !== destination.mount) return WASIAbi.WASI_ERRNO_XDEV;
+          source.mount.backend.rename(source.path, destination.path);
+          if (joinPath(oldParts) === joinPath(newParts)) return;
+          detachDirectories(newParts);
+
+          // Keep open directories below the renamed entry pointing at it.
+          for (const file of Object.values(files)) {
+            if (file.kind !== "dir" || file.preopenPath !== undefined || file.removed) continue;
+            if (oldParts.every((part, i) => file.path[i] === part)) {
+              file.path = [...newParts, ...file.path.slice(oldParts.length)];
+            }
           }
-        } else {
-          if (!(oflags & O_CREAT)) return WASIAbi.WASI_ERRNO_NOENT;
-          target = fileSystem.createFileIn(
-            dirEntry.node as DirectoryNode,
-            path
-          );
-        }
-
-        files[nextFd] = {
-          node: target,
-          position: 0,
-          isPreopen: false,
-          path: guestPath,
-          fd: nextFd,
-        };
-
-        view.setUint32(opened_fd, nextFd, true);
-        nextFd++;
-        return WASIAbi.WASI_ESUCCESS;
-      },
+        }),
 
-      path_filestat_get: (
+      path_symlink: (
+        oldPathPtr: number,
+        oldPathLen: number,
+        fd: number,
+        newPathPtr: number,
+        newPathLen: number
+      ) =>
+        syscall(() => {
+          const target = readPath(oldPathPtr, oldPathLen);
+          const dir = getDirectory(fd, WASIAbi.WASI_RIGHTS_PATH_SYMLINK);
+          const parts = resolvePath(dir, readPath(newPathPtr, newPathLen), false);
+          const { mount, path } = locate(parts);
+          mount.backend.symlink(target, path);
+        }),
+
+      path_readlink: (
         fd: number,
-        _flags: number,
         pathPtr: number,
         pathLen: number,
-        buf: number
-      ) => {
-        const view = memoryView();
-        const file = getFileFromFD(fd);
-        if (!file) return WASIAbi.WASI_ERRNO_BADF;
-        if (file.node.type !== "dir") {
-          return WASIAbi.WASI_ERRNO_NOTDIR;
-        }
-
-        const guestRelPath = abi.readString(view, pathPtr, pathLen);
-        const basePath = file.path;
-        const fullGuestPath = basePath.endsWith("/")
-          ? basePath + guestRelPath
-          : `${basePath}/${guestRelPath}`;
-
-        const node = fileSystem.lookup(fullGuestPath);
-        if (!node) return WASIAbi.WASI_ERRNO_NOENT;
-        if (node.type === "character" && node.kind === "stdio") {
-          return WASIAbi.WASI_ERRNO_INVAL;
-        }
-
-        let filetype: number;
-        let size = 0;
-        if (node.type === "dir") {
-          filetype = WASIAbi.WASI_FILETYPE_DIRECTORY;
-        } else if (node.type === "character" && node.kind === "devnull") {
-          filetype = WASIAbi.WASI_FILETYPE_CHARACTER_DEVICE;
-        } else {
-          filetype = WASIAbi.WASI_FILETYPE_REGULAR_FILE;
-          size = getFileSize(node as FileNode);
-        }
-
-        const { atim, mtim, ctim } = getFileTimes(node);
-        abi.writeFilestat(view, buf, filetype, BigInt(size), atim, mtim, ctim);
-        return WASIAbi.WASI_ESUCCESS;
-      },
+        buf: number,
+        bufLen: number,
+        bufUsedPtr: number
+      ) =>
+        syscall(() => {
+          const parts = resolvePath(getDirectory(fd), readPath(pathPtr, pathLen), false);
+          const { mount, path } = locate(parts);
+          const target = new TextEncoder().encode(mount.backend.readlink(path));
+          const length = Math.min(target.byteLength, bufLen);
+          const view = memoryView();
+          new Uint8Array(view.buffer, buf, bufLen).set(target.subarray(0, length));
+          view.setUint32(bufUsedPtr, length, true);
+        }),
+
+      path_link: (
+        oldFd: number,
+        oldFlags: number,
+        oldPathPtr: number,
+        oldPathLen: number,
+        newFd: number,
+        newPathPtr: number,
+        newPathLen: number
+      ) =>
+        syscall(() => {
+          const followSymlinks = (oldFlags & WASIAbi.WASI_LOOKUPFLAGS_SYMLINK_FOLLOW) !== 0;
+          const oldDir = getDirectory(oldFd, WASIAbi.WASI_RIGHTS_PATH_LINK_SOURCE);
+          const newDir = getDirectory(newFd, WASIAbi.WASI_RIGHTS_PATH_LINK_TARGET);
+          const oldParts = resolvePath(oldDir, readPath(oldPathPtr, oldPathLen), followSymlinks);
+          const newParts = resolvePath(newDir, readPath(newPathPtr, newPathLen), false);
+          const source = locate(oldParts);
+          const destination = locate(newParts);
+          if (source.mount !== destination.mount) return WASIAbi.WASI_ERRNO_XDEV;
+          source.mount.backend.link(source.path, destination.path);
+        }),
     };
   };
 }
-
-export function useFS(_useOptions: { fs: unknown }): WASIFeatureProvider {
-  return (_options: WASIOptions, _abi: WASIAbi, _memoryView: () => DataView) => {
-    // TODO: implement fd_* syscalls using `useOptions.fs`
-    return {};
-  };
-}
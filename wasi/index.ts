@@ -5,7 +5,7 @@ import type { WASIOptions } from "./options";
 export * from "./features/args";
 export * from "./features/clock";
 export * from "./features/environ";
-export { useFS, useStdio, useMemoryFS } from "./features/fd";
+export { useFS, useStdio, useMemoryFS, useMounts } from "./features/fd";
 export * from "./features/proc";
 export * from "./features/random";
 
@@ -0,0 +1,283 @@
+import { WASIAbi } from "./abi";
+import { FileSystemError, HostFileSystem, type NodeFS } from "./features/fd";
+import { readTar, type TarEntry, writeTar } from "./tar";
+
+/**
+ * A file, directory or symbolic link of a `MemoryFileSystem` as saved by a
+ * `PersistenceAdapter`.
+ */
+export interface PersistedNode {
+  type: "file" | "directory" | "symlink";
+  /** Content of a file. */
+  content?: Uint8Array;
+  /** Target of a symbolic link. */
+  target?: string;
+  readonly?: boolean;
+  /** Modification time in milliseconds since the epoch. */
+  mtime: number;
+}
+
+/**
+ * Storage that `MemoryFileSystem.persist` saves nodes to, keyed by absolute
+ * path. Methods may return promises, to store in IndexedDB or over the network.
+ */
+export interface PersistenceAdapter {
+  /** Gets the node saved at a path, or undefined if there is none. */
+  get(path: string): PersistedNode | undefined | Promise<PersistedNode | undefined>;
+  /** Saves a node, replacing the one saved at the same path. Parents are saved first. */
+  put(path: string, node: PersistedNode): void | Promise<void>;
+  /** Removes the node saved at a path. Children are removed first. */
+  delete(path: string): void | Promise<void>;
+  /** Lists the paths of all saved nodes. */
+  list(): string[] | Promise<string[]>;
+}
+
+/**
+ * Keeps saved nodes in memory, and converts them to and from a JSON or tar
+ * snapshot that can be stored anywhere, such as `localStorage`.
+ *
+ * ```js
+ * const adapter = new SnapshotAdapter(localStorage.getItem("project") ?? undefined);
+ * await fs.persist(adapter);
+ * // ...
+ * await fs.flush();
+ * localStorage.setItem("project", adapter.toJSON());
+ * ```
+ */
+export class SnapshotAdapter implements PersistenceAdapter {
+  private nodes = new Map<string, PersistedNode>();
+
+  /**
+   * Creates an adapter, optionally holding the nodes of a snapshot.
+   * @param snapshot A snapshot from `toJSON`, or a tar archive from `toBytes`
+   * @throws {Error} If the snapshot is malformed
+   */
+  constructor(snapshot?: string | Uint8Array) {
+    if (typeof snapshot === "string") {
+      const parsed = JSON.parse(snapshot) as { nodes?: Record<string, JsonNode> };
+      for (const [path, node] of Object.entries(parsed.nodes ?? {})) {
+        this.nodes.set(path, {
+          type: node.type,
+          content: node.content !== undefined ? fromBase64(node.content) : undefined,
+          target: node.target,
+          readonly: node.readonly,
+          mtime: node.mtime,
+        });
+      }
+    } else if (snapshot) {
+      for (const entry of readTar(snapshot)) {
+        if (entry.type === "link") continue;
+        this.nodes.set(`/${entry.path}`, {
+          type: entry.type,
+          content: entry.content?.slice(),
+          target: entry.linkTarget,
+          readonly: entry.mode !== undefined && entry.type !== "symlink" && !(entry.mode & 0o200),
+          mtime: entry.mtime * 1000,
+        });
+      }
+    }
+  }
+
+  get(path: string): PersistedNode | undefined {
+    return this.nodes.get(path);
+  }
+
+  put(path: string, node: PersistedNode): void {
+    this.nodes.set(path, node);
+  }
+
+  delete(path: string): void {
+    this.nodes.delete(path);
+  }
+
+  list(): string[] {
+    return [...this.nodes.keys()];
+  }
+
+  /**
+   * Serializes the saved nodes to JSON, with file contents in base64.
+   */
+  toJSON(): string {
+    const nodes: Record<string, JsonNode> = {};
+    for (const [path, node] of this.nodes) {
+      nodes[path] = {
+        type: node.type,
+        content: node.content && toBase64(node.content),
+        target: node.target,
+        readonly: node.readonly,
+        mtime: node.mtime,
+      };
+    }
+    return JSON.stringify({ version: 1, nodes });
+  }
+
+  /**
+   * Serializes the saved nodes to a tar archive. Times are kept to the second.
+   */
+  toBytes(): Uint8Array {
+    const entries: TarEntry[] = [...this.nodes.keys()].sort().map((path) => {
+      const node = this.nodes.get(path) as PersistedNode;
+      const writable = node.readonly ? 0 : 0o200;
+      return {
+        path: path.slice(1),
+        type: node.type,
+        content: node.content,
+        linkTarget: node.target,
+        mode: node.type === "symlink" ? 0o777 : (node.type === "directory" ? 0o555 : 0o444) | writable,
+        mtime: node.mtime / 1000,
+      };
+    });
+    return writeTar(entries);
+  }
+}
+
+/**
+ * Saves nodes as files, directories and symbolic links below a directory of
+ * the host, through a `node:fs`-compatible module.
+ *
+ * ```js
+ * import * as fs from "node:fs";
+ *
+ * await memoryFs.persist(new NodeDirectoryAdapter(fs, "./.perl-home"));
+ * ```
+ */
+export class NodeDirectoryAdapter implements PersistenceAdapter {
+  private readonly host: HostFileSystem;
+
+  /**
+   * Creates an adapter over a host directory, which is created on the first save if missing.
+   * @param fs The `node:fs` module, or a compatible implementation
+   * @param directory Host directory to save nodes in
+   */
+  constructor(fs: NodeFS, directory: string) {
+    this.host = new HostFileSystem(fs, directory);
+  }
+
+  async get(path: string): Promise<PersistedNode | undefined> {
+    const stat = this.statOrNull(path);
+    if (!stat) return undefined;
+    const mtime = Number(stat.mtim / 1_000_000n);
+    switch (stat.filetype) {
+      case WASIAbi.WASI_FILETYPE_DIRECTORY:
+        return { type: "directory", mtime };
+      case WASIAbi.WASI_FILETYPE_SYMBOLIC_LINK:
+        return { type: "symlink", target: this.host.readlink(path), mtime };
+      case WASIAbi.WASI_FILETYPE_REGULAR_FILE: {
+        const content = new Uint8Array(Number(stat.size));
+        const handle = this.host.open(path, { read: true });
+        try {
+          let read = 0;
+          while (read < content.byteLength) {
+            const count = await this.host.read(handle, [content.subarray(read)], read);
+            if (count === 0) break;
+            read += count;
+          }
+          return { type: "file", content: content.subarray(0, read), mtime };
+        } finally {
+          this.host.close(handle);
+        }
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  put(path: string, node: PersistedNode): void {
+    this.ensureParents(path);
+    const existing = this.statOrNull(path);
+    const isDirectory = existing?.filetype === WASIAbi.WASI_FILETYPE_DIRECTORY;
+    if (existing && (node.type !== "directory" || !isDirectory)) {
+      if (isDirectory) this.host.rmdir(path);
+      else if (node.type !== "file" || existing.filetype !== WASIAbi.WASI_FILETYPE_REGULAR_FILE) this.host.unlink(path);
+    }
+
+    switch (node.type) {
+      case "directory":
+        if (!isDirectory) this.host.mkdir(path);
+        break;
+      case "symlink":
+        this.host.symlink(node.target ?? "", path);
+        // Host times of symbolic links cannot always be set.
+        return;
+      case "file": {
+        const handle = this.host.open(path, { write: true, create: true, truncate: true });
+        try {
+          const content = node.content ?? new Uint8Array(0);
+          let written = 0;
+          while (written < content.byteLength) {
+            written += this.host.write(handle, [content.subarray(written)], written);
+          }
+        } finally {
+          this.host.close(handle);
+        }
+        break;
+      }
+    }
+    const mtim = BigInt(Math.round(node.mtime)) * 1_000_000n;
+    this.host.setTimes(path, mtim, mtim);
+  }
+
+  delete(path: string): void {
+    const stat = this.statOrNull(path);
+    if (!stat) return;
+    if (stat.filetype === WASIAbi.WASI_FILETYPE_DIRECTORY) this.host.rmdir(path);
+    else this.host.unlink(path);
+  }
+
+  list(): string[] {
+    const paths: string[] = [];
+    const visit = (dir: string): void => {
+      for (const name of this.host.readdir(dir)) {
+        const path = dir === "/" ? `/${name}` : `${dir}/${name}`;
+        paths.push(path);
+        if (this.statOrNull(path)?.filetype === WASIAbi.WASI_FILETYPE_DIRECTORY) visit(path);
+      }
+    };
+    if (this.statOrNull("/")) visit("/");
+    return paths;
+  }
+
+  private statOrNull(path: string) {
+    try {
+      return this.host.stat(path);
+    } catch (error) {
+      if (error instanceof FileSystemError && error.errno === WASIAbi.WASI_ERRNO_NOENT) return null;
+      throw error;
+    }
+  }
+
+  private ensureParents(path: string): void {
+    const parts = path.split("/").filter((p) => p.length > 0);
+    for (let i = 0; i < parts.length; i++) {
+      const dir = `/${parts.slice(0, i).join("/")}`;
+      if (!this.statOrNull(dir)) this.host.mkdir(dir);
+    }
+  }
+}
+
+/**
+ * A node in a JSON snapshot, with the content of a file in base64.
+ */
+interface JsonNode {
+  type: PersistedNode["type"];
+  content?: string;
+  target?: string;
+  readonly?: boolean;
+  mtime: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunks keep the argument count of fromCharCode within engine limits.
+  for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,288 @@
+/**
+ * An entry of a tar archive.
+ */
+export interface TarEntry {
+  /** Path of the entry relative to the archive root, without a trailing slash. */
+  path: string;
+  type: "file" | "directory" | "symlink" | "link";
+  /** Content of a file. */
+  content?: Uint8Array;
+  /** Target of a symbolic link, or archive path of the file a hard link refers to. */
+  linkTarget?: string;
+  /** Permission bits. */
+  mode?: number;
+  /** Modification time in seconds since the epoch. */
+  mtime: number;
+}
+
+const BLOCK_SIZE = 512;
+
+/** Largest size the octal size field of a ustar header can hold. */
+const MAX_OCTAL_SIZE = 0o77777777777;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Parses a ustar, pax or GNU tar archive.
+ * @param bytes The archive, without compression
+ * @returns The entries of the archive, in archive order
+ * @throws {Error} If the archive is malformed
+ */
+export function readTar(bytes: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let globalPax: Record<string, string> = {};
+  let pax: Record<string, string> = {};
+  let longName: string | undefined;
+  let longLink: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= bytes.byteLength) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+    // The archive ends with zero blocks.
+    if (header.every((byte) => byte === 0)) break;
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new Error(`Invalid tar archive: bad header checksum at offset ${offset}`);
+    }
+
+    const typeflag = String.fromCharCode(header[156] as number);
+    const records = { ...globalPax, ...pax };
+    const size = records.size !== undefined ? Number(records.size) : readSize(header);
+    if (!Number.isSafeInteger(size) || size < 0) {
+      throw new Error(`Invalid tar archive: bad entry size at offset ${offset}`);
+    }
+    const dataStart = offset + BLOCK_SIZE;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    if (data.byteLength < size) {
+      throw new Error(`Invalid tar archive: entry at offset ${offset} is truncated`);
+    }
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    switch (typeflag) {
+      case "x":
+        pax = parsePax(data);
+        continue;
+      case "g":
+        globalPax = { ...globalPax, ...parsePax(data) };
+        continue;
+      case "L":
+        longName = readString(data, 0, data.byteLength);
+        continue;
+      case "K":
+        longLink = readString(data, 0, data.byteLength);
+        continue;
+    }
+
+    let path = records.path ?? longName ?? headerPath(header);
+    const linkTarget = records.linkpath ?? longLink ?? readString(header, 157, 100);
+    const mtime = records.mtime !== undefined ? Number(records.mtime) : readOctal(header, 136, 12);
+    const mode = readOctal(header, 100, 8);
+    pax = {};
+    longName = undefined;
+    longLink = undefined;
+
+    path = path.replace(/\/+$/, "");
+    switch (typeflag) {
+      case "0":
+      case "\0":
+      case "7":
+        entries.push({ path, type: "file", content: data, mode, mtime });
+        break;
+      case "1":
+        entries.push({ path, type: "link", linkTarget: linkTarget.replace(/\/+$/, ""), mode, mtime });
+        break;
+      case "2":
+        entries.push({ path, type: "symlink", linkTarget, mode, mtime });
+        break;
+      case "5":
+        entries.push({ path, type: "directory", mode, mtime });
+        break;
+      // Devices and FIFOs have no counterpart in the file system.
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Creates a ustar archive, with pax headers for names and sizes ustar cannot hold.
+ * @param entries Entries to archive, directories before their contents
+ * @returns The archive, without compression
+ */
+export function writeTar(entries: TarEntry[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+
+  for (const entry of entries) {
+    const path = entry.type === "directory" ? `${entry.path}/` : entry.path;
+    const linkTarget = entry.linkTarget ?? "";
+    const size = entry.type === "file" ? (entry.content?.byteLength ?? 0) : 0;
+    const split = splitUstarPath(path);
+
+    const records: Record<string, string> = {};
+    if (!split) records.path = path;
+    if (encoder.encode(linkTarget).byteLength > 100) records.linkpath = linkTarget;
+    if (size > MAX_OCTAL_SIZE) records.size = String(size);
+    if (Object.keys(records).length > 0) {
+      const data = formatPax(records);
+      blocks.push(createHeader({ name: "PaxHeader", typeflag: "x", size: data.byteLength, mtime: entry.mtime }));
+      blocks.push(pad(data));
+    }
+
+    blocks.push(
+      createHeader({
+        name: split?.name ?? path.slice(-100),
+        prefix: split?.prefix,
+        typeflag: { file: "0", link: "1", symlink: "2", directory: "5" }[entry.type],
+        size,
+        mode: entry.mode,
+        mtime: entry.mtime,
+        linkTarget: records.linkpath ? "" : linkTarget,
+      })
+    );
+    if (entry.type === "file" && entry.content) blocks.push(pad(entry.content));
+  }
+
+  blocks.push(new Uint8Array(BLOCK_SIZE * 2));
+
+  const archive = new Uint8Array(blocks.reduce((total, block) => total + block.byteLength, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    archive.set(block, offset);
+    offset += block.byteLength;
+  }
+  return archive;
+}
+
+function createHeader(fields: {
+  name: string;
+  prefix?: string;
+  typeflag: string;
+  size: number;
+  mode?: number;
+  mtime: number;
+  linkTarget?: string;
+}): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeString(header, 0, 100, fields.name);
+  writeOctal(header, 100, 8, fields.mode ?? (fields.typeflag === "5" ? 0o755 : 0o644));
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, Math.min(fields.size, MAX_OCTAL_SIZE));
+  writeOctal(header, 136, 12, Math.max(0, Math.floor(fields.mtime)));
+  header[156] = fields.typeflag.charCodeAt(0);
+  writeString(header, 157, 100, fields.linkTarget ?? "");
+  writeString(header, 257, 6, "ustar");
+  writeString(header, 263, 2, "00");
+  writeString(header, 345, 155, fields.prefix ?? "");
+
+  // The checksum is computed with its own field filled with spaces.
+  header.fill(0x20, 148, 156);
+  const sum = checksum(header);
+  writeString(header, 148, 8, `${sum.toString(8).padStart(6, "0")}\0 `);
+  return header;
+}
+
+/**
+ * Splits a path into the name and prefix fields of a ustar header.
+ * @returns The fields, or null if the path does not fit
+ */
+function splitUstarPath(path: string): { name: string; prefix: string } | null {
+  const bytes = encoder.encode(path);
+  if (bytes.byteLength <= 100) return { name: path, prefix: "" };
+
+  for (let i = path.indexOf("/"); i !== -1; i = path.indexOf("/", i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (encoder.encode(prefix).byteLength <= 155 && encoder.encode(name).byteLength <= 100 && name) {
+      return { name, prefix };
+    }
+  }
+  return null;
+}
+
+function headerPath(header: Uint8Array): string {
+  const name = readString(header, 0, 100);
+  const isUstar = readString(header, 257, 5) === "ustar";
+  const prefix = isUstar ? readString(header, 345, 155) : "";
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+/**
+ * Parses the records of a pax extended header, such as `30 mtime=1700000000.5\n`.
+ */
+function parsePax(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.byteLength) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = Number(decoder.decode(data.subarray(offset, space)));
+    if (!Number.isInteger(length) || length <= 0) {
+      throw new Error("Invalid tar archive: malformed pax header");
+    }
+    const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+    const equals = record.indexOf("=");
+    if (equals !== -1) records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+  return records;
+}
+
+function formatPax(records: Record<string, string>): Uint8Array {
+  let text = "";
+  for (const [key, value] of Object.entries(records)) {
+    // The length prefix counts its own digits.
+    const body = ` ${key}=${value}\n`;
+    const bodyLength = encoder.encode(body).byteLength;
+    let length = bodyLength + String(bodyLength).length;
+    if (String(length).length !== String(bodyLength).length) length++;
+    text += `${length}${body}`;
+  }
+  return encoder.encode(text);
+}
+
+function readSize(header: Uint8Array): number {
+  // GNU base-256 encoding, for sizes beyond the octal field.
+  if ((header[124] as number) & 0x80) {
+    let size = (header[124] as number) & 0x7f;
+    for (let i = 125; i < 136; i++) size = size * 256 + (header[i] as number);
+    return size;
+  }
+  return readOctal(header, 124, 12);
+}
+
+function readOctal(header: Uint8Array, offset: number, length: number): number {
+  const text = readString(header, offset, length).trim();
+  return text ? Number.parseInt(text, 8) : 0;
+}
+
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(header, offset, length, `${value.toString(8).padStart(length - 1, "0")}\0`);
+}
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string): void {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function checksum(header: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : (header[i] as number);
+  }
+  return sum;
+}
+
+/**
+ * Pads data with zeros to a whole number of blocks.
+ */
+function pad(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(data.byteLength / BLOCK_SIZE) * BLOCK_SIZE);
+  padded.set(data);
+  return padded;
+}
@@ -0,0 +1,202 @@
+/**
+ * An entry of the central directory of a zip archive.
+ */
+export interface ZipEntry {
+  /** Path of the entry relative to the archive root, without a trailing slash. */
+  path: string;
+  directory: boolean;
+  /** Compression method, 0 for stored or 8 for deflate. */
+  method: number;
+  compressedSize: number;
+  /** Size of the entry once decompressed. */
+  size: number;
+  crc32: number;
+  /** Offset of the local file header. */
+  offset: number;
+  /** Modification time in milliseconds since the epoch. */
+  mtime: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+/** Size of the end of central directory record, without the comment. */
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+/** Extra field holding the modification time as a Unix timestamp. */
+const EXTENDED_TIMESTAMP_FIELD = 0x5455;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Reads the central directory of a zip archive.
+ * @param bytes The archive
+ * @returns The entries of the archive, in central directory order
+ * @throws {Error} If the archive is malformed or uses unsupported features
+ */
+export function readZipDirectory(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("Invalid zip archive: ZIP64 archives are not supported");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid zip archive: bad central directory entry at offset ${offset}`);
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    const extra = bytes.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength);
+    const entry: ZipEntry = {
+      path: name.replace(/\/+$/, ""),
+      directory: name.endsWith("/"),
+      method,
+      crc32: view.getUint32(offset + 16, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      offset: view.getUint32(offset + 42, true),
+      mtime:
+        extendedTimestamp(extra) ??
+        dosTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true)),
+    };
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (entry.directory) {
+      entries.push(entry);
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Invalid zip archive: "${name}" is encrypted`);
+    }
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATE) {
+      throw new Error(`Invalid zip archive: "${name}" uses unsupported compression method ${method}`);
+    }
+    if (entry.size === 0xffffffff || entry.compressedSize === 0xffffffff || entry.offset === 0xffffffff) {
+      throw new Error("Invalid zip archive: ZIP64 archives are not supported");
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Decompresses an entry of a zip archive and checks its CRC-32.
+ * @param bytes The archive
+ * @param entry The entry, from `readZipDirectory`
+ * @returns The content of the entry
+ * @throws {Error} If the entry is malformed or its content is corrupt
+ */
+export async function extractZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (entry.offset + 30 > view.byteLength || view.getUint32(entry.offset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Invalid zip archive: bad local header for "${entry.path}"`);
+  }
+  // The local header has its own name and extra field lengths.
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  if (data.byteLength < entry.compressedSize) {
+    throw new Error(`Invalid zip archive: "${entry.path}" is truncated`);
+  }
+
+  const content = entry.method === METHOD_STORED ? data.slice() : await inflate(data, entry.size);
+  if (!content || content.byteLength !== entry.size || crc32(content) !== entry.crc32) {
+    throw new Error(`Invalid zip archive: "${entry.path}" is corrupt`);
+  }
+  return content;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is followed by a comment of at most 65535 bytes.
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  for (let offset = last; offset >= 0 && offset >= last - 0xffff; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return offset;
+  }
+  throw new Error("Invalid zip archive: end of central directory not found");
+}
+
+function extendedTimestamp(extra: Uint8Array): number | undefined {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  for (let offset = 0; offset + 4 <= extra.byteLength; ) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    // The first flag bit says the modification time is present.
+    if (id === EXTENDED_TIMESTAMP_FIELD && size >= 5 && (view.getUint8(offset + 4) & 0x1)) {
+      return view.getInt32(offset + 5, true) * 1000;
+    }
+    offset += 4 + size;
+  }
+  return undefined;
+}
+
+/**
+ * Converts an MS-DOS date and time, which are in local time, to milliseconds since the epoch.
+ */
+function dosTime(date: number, time: number): number {
+  return new Date(
+    1980 + (date >> 9),
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+/**
+ * Decompresses raw deflate data, giving up as soon as it grows beyond the size
+ * recorded for it, so that a small entry cannot expand to fill the memory.
+ * @returns The content, or null if it is larger than `size`
+ */
+async function inflate(data: Uint8Array, size: number): Promise<Uint8Array | null> {
+  const stream = new DecompressionStream("deflate-raw");
+  const writer = stream.writable.getWriter();
+  // Errors of the input side are reported by the output side as well. The
+  // copy is backed by an ArrayBuffer, as streams do not take shared memory.
+  writer.write(new Uint8Array(data)).catch(() => {});
+  writer.close().catch(() => {});
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    length += chunk.value.byteLength;
+    if (length > size) {
+      reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+
+  const content = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    content.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return content;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}